@@ -0,0 +1,49 @@
+import esbuild from "esbuild";
+import { spawnSync } from "child_process";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import process from "process";
+
+// Tests live next to the code they cover, as src/**/*.test.ts
+function findTests(dir) {
+    return fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+        const file = path.join(dir, entry.name);
+        if (entry.isDirectory()) return findTests(file);
+        return entry.name.endsWith(".test.ts") ? [file] : [];
+    });
+}
+
+const testFiles = findTests("src").sort();
+
+if (testFiles.length === 0) {
+    console.log("No tests found");
+    process.exit(0);
+}
+
+// Bundle each test file on its own, so Node can run them without a TypeScript loader
+const outdir = fs.mkdtempSync(path.join(os.tmpdir(), "notes-sync-tests-"));
+
+let status = 1;
+try {
+    await esbuild.build({
+        entryPoints: testFiles,
+        outdir,
+        outbase: "src",
+        bundle: true,
+        platform: "node",
+        format: "cjs",
+        target: "node16",
+        // Obsidian's API only exists inside the app, tests get a stand-in
+        alias: { obsidian: "./src/__mocks__/obsidian.ts" },
+        sourcemap: "inline",
+        logLevel: "warning",
+    });
+
+    const bundles = testFiles.map(file => path.join(outdir, path.relative("src", file).replace(/\.ts$/, ".js")));
+    status = spawnSync(process.execPath, ["--enable-source-maps", "--test", ...bundles], { stdio: "inherit" }).status ?? 1;
+} finally {
+    fs.rmSync(outdir, { recursive: true, force: true });
+}
+
+process.exit(status);
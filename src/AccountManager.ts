@@ -0,0 +1,142 @@
+import NotesSyncPlugin from './main';
+import { AccountProfile, NotesSyncSettings, SyncProviderId } from './types';
+
+/**
+ * Named account profiles. Each service has one or more accounts, each with its
+ * own credentials and target folder. The settings fields a
+ * provider marks as `account` are read from and written to the profile.
+ */
+export class AccountManager {
+    private plugin: NotesSyncPlugin;
+
+    constructor(plugin: NotesSyncPlugin) {
+        this.plugin = plugin;
+
+        if (!Array.isArray(this.plugin.settings.accounts)) {
+            this.plugin.settings.accounts = [];
+        }
+
+        // Settings from before profiles existed become each service's first account
+        for (const provider of this.plugin.providers.getAll()) {
+            if (this.getProfiles(provider.id).length === 0) {
+                const legacy = this.plugin.settings as unknown as Record<string, unknown>;
+                const settings: Record<string, unknown> = {};
+                for (const key of this.getAccountKeys(provider.id)) {
+                    settings[key] = legacy[key];
+                }
+                this.plugin.settings.accounts.push({
+                    id: `${provider.id}-default`,
+                    service: provider.id,
+                    name: 'Default',
+                    enabled: true,
+                    settings
+                });
+            }
+        }
+    }
+
+    public getProfiles(service: SyncProviderId): AccountProfile[] {
+        return this.plugin.settings.accounts.filter(profile => profile.service === service);
+    }
+
+    public getEnabledProfiles(service: SyncProviderId): AccountProfile[] {
+        return this.getProfiles(service).filter(profile => profile.enabled);
+    }
+
+    public get(id: string): AccountProfile | undefined {
+        return this.plugin.settings.accounts.find(profile => profile.id === id);
+    }
+
+    /**
+     * The account used when none is specified: the first enabled one
+     */
+    public getDefault(service: SyncProviderId): AccountProfile {
+        const profiles = this.getProfiles(service);
+        const profile = profiles.find(p => p.enabled) ?? profiles[0];
+        if (!profile) {
+            throw new Error(`No account configured for ${service}`);
+        }
+        return profile;
+    }
+
+    /**
+     * Find the account a note belongs to from the folder it's in
+     */
+    public findByPath(service: SyncProviderId, path: string): AccountProfile {
+        const folderKey = this.plugin.providers.get(service)?.folderSetting;
+        if (folderKey) {
+            // Longest folder first, so nested account folders match the right account
+            const matches = this.getProfiles(service)
+                .map(profile => ({ profile, folder: String(this.getSettings(profile)[folderKey as keyof NotesSyncSettings] || '') }))
+                .filter(({ folder }) => folder && (path === folder || path.startsWith(folder + '/')))
+                .sort((a, b) => b.folder.length - a.folder.length);
+            if (matches.length > 0) {
+                return matches[0].profile;
+            }
+        }
+        return this.getDefault(service);
+    }
+
+    public async add(service: SyncProviderId, name: string): Promise<AccountProfile> {
+        const profile: AccountProfile = {
+            id: `${service}-${Date.now().toString(36)}`,
+            service,
+            name,
+            enabled: true,
+            settings: {}
+        };
+
+        // Give the account its own folder so it doesn't mix with the others
+        const folderKey = this.plugin.providers.get(service)?.folderSetting;
+        if (folderKey) {
+            const baseFolder = String(this.getSettings(this.getDefault(service))[folderKey as keyof NotesSyncSettings] || service);
+            profile.settings[folderKey] = `${baseFolder}-${name.toLowerCase().replace(/[^a-z0-9]+/g, '-')}`;
+        }
+
+        this.plugin.settings.accounts.push(profile);
+        await this.plugin.saveSettings();
+        return profile;
+    }
+
+    public async remove(id: string): Promise<void> {
+        const profile = this.get(id);
+        if (!profile || this.getProfiles(profile.service).length <= 1) {
+            throw new Error('A service needs at least one account');
+        }
+
+        this.plugin.settings.accounts = this.plugin.settings.accounts.filter(p => p.id !== id);
+        this.plugin.cursors.remove(id);
+        await this.plugin.saveSettings();
+    }
+
+    /**
+     * Settings as seen by a service working for this account. Account fields
+     * come from the profile, everything else from the plugin settings.
+     */
+    public getSettings(profile: AccountProfile): NotesSyncSettings {
+        const scoped = new Set(this.getAccountKeys(profile.service));
+        const plugin = this.plugin;
+
+        return new Proxy(plugin.settings, {
+            get(_target, key) {
+                if (typeof key === 'string' && scoped.has(key) && key in profile.settings) {
+                    return profile.settings[key];
+                }
+                return Reflect.get(plugin.settings, key);
+            },
+            set(_target, key, value) {
+                if (typeof key === 'string' && scoped.has(key)) {
+                    profile.settings[key] = value;
+                } else {
+                    Reflect.set(plugin.settings, key, value);
+                }
+                return true;
+            }
+        });
+    }
+
+    private getAccountKeys(service: SyncProviderId): string[] {
+        const provider = this.plugin.providers.get(service);
+        return provider ? provider.settings.filter(field => field.account).map(field => field.key) : [];
+    }
+}
@@ -0,0 +1,76 @@
+import { describe, it } from 'node:test';
+import { strict as assert } from 'node:assert';
+import NotesSyncPlugin from './main';
+import { AttachmentManager } from './AttachmentManager';
+
+type VaultEvent = (...args: unknown[]) => void;
+
+const INDEX_PATH = 'plugin/attachments.json';
+const URL = 'https://example.com/a.png';
+
+/**
+ * A plugin with a stored index that knows one downloaded image
+ */
+function createPlugin() {
+    const files = new Map<string, string>([[INDEX_PATH, JSON.stringify({
+        files: { hash1: 'attachments/a.png' },
+        sources: { [`luojilab:${URL}`]: { service: 'luojilab', remoteId: URL, noteId: 'note-1', url: URL, hash: 'hash1' } }
+    })]]);
+    const events = new Map<string, VaultEvent>();
+    const plugin = {
+        manifest: { id: 'notes-sync', dir: 'plugin' },
+        settings: {},
+        registerEvent: () => {},
+        app: {
+            metadataCache: { getFirstLinkpathDest: () => null },
+            vault: {
+                on: (name: string, callback: VaultEvent) => events.set(name, callback),
+                getAbstractFileByPath: () => null,
+                adapter: {
+                    exists: async (path: string) => files.has(path),
+                    read: async (path: string) => files.get(path) ?? '',
+                    write: async (path: string, data: string) => { files.set(path, data); }
+                }
+            }
+        }
+    } as unknown as NotesSyncPlugin;
+
+    const emit = (name: string, ...args: unknown[]) => events.get(name)?.(...args);
+    const stored = () => JSON.parse(files.get(INDEX_PATH) ?? '{}');
+    return { plugin, emit, stored };
+}
+
+// Let the saves started by vault events finish
+function settle(): Promise<void> {
+    return new Promise(resolve => setImmediate(resolve));
+}
+
+describe('AttachmentManager', () => {
+    describe('before the first sync', () => {
+        it('follows an attachment renamed while the index is read', async () => {
+            const { plugin, emit, stored } = createPlugin();
+            const attachments = new AttachmentManager(plugin);
+            attachments.register();
+            emit('rename', { path: 'images/a.png' }, 'attachments/a.png');
+
+            await attachments.load();
+            await settle();
+
+            assert.equal(attachments.restoreLinks('luojilab', '![[images/a.png]]'), `![](${URL})`);
+            assert.deepEqual(stored().files, { hash1: 'images/a.png' });
+        });
+
+        it('forgets an attachment deleted while the index is read', async () => {
+            const { plugin, emit, stored } = createPlugin();
+            const attachments = new AttachmentManager(plugin);
+            attachments.register();
+            emit('delete', { path: 'attachments/a.png' });
+
+            await attachments.load();
+            await settle();
+
+            assert.equal(attachments.restoreLinks('luojilab', '![[attachments/a.png]]'), '![[attachments/a.png]]');
+            assert.deepEqual(stored().files, {});
+        });
+    });
+});
@@ -0,0 +1,364 @@
+import { TAbstractFile, TFile, normalizePath, requestUrl } from 'obsidian';
+import * as crypto from 'crypto';
+import NotesSyncPlugin from './main';
+import { SyncProviderId } from './types';
+import { sanitizeFileName } from './PathTemplate';
+
+// A file attached to a remote note
+export interface AttachmentSource {
+    service: SyncProviderId;
+    remoteId: string;       // The service's file ID, or its URL when it has none
+    noteId: string;         // Remote note the file came with
+    url: string;
+    hash?: string;          // Content hash of the downloaded file; missing when it wasn't downloaded
+}
+
+interface AttachmentData {
+    files: Record<string, string>;                  // Content hash -> vault path
+    sources: Record<string, AttachmentSource>;      // Keyed by "service:remoteId"
+}
+
+const EXTENSIONS: Record<string, string> = {
+    'image/png': 'png',
+    'image/jpeg': 'jpg',
+    'image/gif': 'gif',
+    'image/webp': 'webp',
+    'image/svg+xml': 'svg',
+    'audio/mpeg': 'mp3',
+    'audio/mp4': 'm4a',
+    'audio/x-m4a': 'm4a',
+    'audio/wav': 'wav',
+    'audio/webm': 'webm',
+    'application/pdf': 'pdf'
+};
+
+// ![alt](https://...) and <img src="https://...">
+const REMOTE_IMAGE_PATTERN = /!\[([^\]]*)\]\((https?:\/\/[^)\s]+)\)|<img[^>]*\ssrc=["'](https?:\/\/[^"']+)["'][^>]*>/g;
+// ![[path]] and ![[path|alt]]
+const EMBED_PATTERN = /!\[\[([^\]|]+)(?:\|([^\]]*))?\]\]/g;
+
+/**
+ * Downloads the images and files of remote notes into the attachments folder.
+ * Files are stored once per content hash, however many notes or services
+ * refer to them. The index of downloaded files is kept in its own file in the
+ * plugin folder and follows renamed and deleted attachments.
+ */
+export class AttachmentManager {
+    private plugin: NotesSyncPlugin;
+    private data: AttachmentData | null;
+    private loading: Promise<void> | null;
+
+    constructor(plugin: NotesSyncPlugin) {
+        this.plugin = plugin;
+        this.data = null;
+        this.loading = null;
+    }
+
+    public register(): void {
+        this.load();
+        this.plugin.registerEvent(
+            // Renaming a folder moves the attachments inside it along with it
+            this.plugin.app.vault.on('rename', (file: TAbstractFile, oldPath: string) => {
+                this.onPathChange(oldPath, file.path);
+            })
+        );
+        this.plugin.registerEvent(
+            this.plugin.app.vault.on('delete', (file: TAbstractFile) => {
+                this.onPathChange(file.path, null);
+            })
+        );
+    }
+
+    /**
+     * Read the index; the methods that don't download need it loaded first
+     */
+    public async load(): Promise<void> {
+        if (this.data) return;
+        if (!this.loading) {
+            this.loading = (async () => {
+                const adapter = this.plugin.app.vault.adapter;
+                const filePath = this.getFilePath();
+                let data: AttachmentData = { files: {}, sources: {} };
+                try {
+                    if (await adapter.exists(filePath)) {
+                        const stored = JSON.parse(await adapter.read(filePath));
+                        data = { files: stored?.files || {}, sources: stored?.sources || {} };
+                    }
+                } catch (err) {
+                    console.error('Failed to load attachment index, starting empty:', err);
+                }
+                this.data = data;
+            })();
+        }
+        await this.loading;
+    }
+
+    /**
+     * Download a file into the attachments folder, unless it's there already
+     * @param name File name suggested by the service
+     * @param size Size reported by the service, to skip large files without downloading them
+     * @returns The vault path of the file, or null if it wasn't downloaded
+     */
+    public async download(source: Omit<AttachmentSource, 'hash'>, name?: string, size?: number): Promise<string | null> {
+        await this.load();
+        if (!this.data || !this.plugin.settings.downloadAttachments) return null;
+
+        const key = this.getKey(source.service, source.remoteId);
+        const known = this.data.sources[key];
+        const knownPath = known?.hash ? this.data.files[known.hash] : undefined;
+        if (knownPath && this.plugin.app.vault.getAbstractFileByPath(knownPath)) {
+            this.data.sources[key] = { ...known, url: source.url };
+            return knownPath;
+        }
+
+        // Remember files that are skipped, so they are kept on the remote note
+        this.data.sources[key] = { ...source };
+
+        const maxBytes = this.plugin.settings.maxAttachmentSize * 1024 * 1024;
+        if (maxBytes > 0 && size && size > maxBytes) {
+            console.log(`Not downloading ${name || source.url}: ${size} bytes is over the attachment size limit`);
+            await this.save();
+            return null;
+        }
+
+        try {
+            const response = await requestUrl({ url: source.url, method: 'GET' });
+            const content = response.arrayBuffer;
+            if (maxBytes > 0 && content.byteLength > maxBytes) {
+                console.log(`Not keeping ${name || source.url}: ${content.byteLength} bytes is over the attachment size limit`);
+                await this.save();
+                return null;
+            }
+
+            const hash = crypto.createHash('sha256').update(new Uint8Array(content)).digest('hex');
+            let path = this.data.files[hash];
+            if (!path || !this.plugin.app.vault.getAbstractFileByPath(path)) {
+                path = await this.writeFile(content, hash, name || this.getNameFromUrl(source.url), response.headers['content-type']);
+                this.data.files[hash] = path;
+            }
+
+            this.data.sources[key] = { ...source, hash };
+            await this.save();
+            return path;
+        } catch (error) {
+            console.error(`Failed to download attachment ${source.url}:`, error);
+            await this.save();
+            return null;
+        }
+    }
+
+    /**
+     * Download the images a note links to and embed the local copies instead.
+     * Images that can't be downloaded keep their remote link.
+     */
+    public async localizeLinks(service: SyncProviderId, noteId: string, body: string): Promise<string> {
+        if (!this.plugin.settings.downloadAttachments) return body;
+
+        const links = new Map<string, string | null>();
+        let match: RegExpExecArray | null;
+        const pattern = new RegExp(REMOTE_IMAGE_PATTERN.source, 'g');
+        while ((match = pattern.exec(body)) !== null) {
+            const url = match[2] ?? match[3];
+            if (!links.has(url)) {
+                links.set(url, await this.download({ service, remoteId: url, noteId, url }));
+            }
+        }
+
+        return body.replace(REMOTE_IMAGE_PATTERN, (link, alt: string | undefined, markdownUrl?: string, htmlUrl?: string) => {
+            const path = links.get(markdownUrl ?? htmlUrl ?? '');
+            return path ? this.embed(path, alt) : link;
+        });
+    }
+
+    /**
+     * Put the remote links of a service's downloaded images back, for sending a note to the service
+     */
+    public restoreLinks(service: SyncProviderId, body: string): string {
+        return body.replace(EMBED_PATTERN, (embed, path: string, alt?: string) => {
+            const source = this.findSource(service, path.trim());
+            return source && source.remoteId === source.url ? `![${alt ?? ''}](${source.url})` : embed;
+        });
+    }
+
+    /**
+     * Take lines that only embed attachments of a service's notes out of a body,
+     * for services that keep files apart from the text
+     * @returns The remaining text, the embed lines and the service's IDs of the embedded files
+     */
+    public splitEmbeds(service: SyncProviderId, body: string, noteId?: string): { text: string; embeds: string[]; remoteIds: string[] } {
+        const embeds: string[] = [];
+        const remoteIds: string[] = [];
+
+        const lines = body.split('\n').filter(line => {
+            const embed = line.trim().match(new RegExp(`^${EMBED_PATTERN.source}$`));
+            const source = embed ? this.findSource(service, embed[1].trim(), noteId) : undefined;
+            if (!source) return true;
+
+            embeds.push(line.trim());
+            remoteIds.push(source.remoteId);
+            return false;
+        });
+
+        return { text: lines.join('\n').trim(), embeds, remoteIds };
+    }
+
+    /**
+     * Upload the vault files a note embeds that the service doesn't have yet.
+     * They are recorded as the service's files, so `splitEmbeds` and
+     * `restoreLinks` treat them like downloaded ones and they're uploaded once.
+     * @param sourcePath The note, for resolving its links
+     * @param upload Sends one file to the service and returns its ID and URL there
+     */
+    public async uploadEmbeds(
+        service: SyncProviderId,
+        body: string,
+        sourcePath: string,
+        noteId: string | undefined,
+        upload: (file: TFile, content: ArrayBuffer) => Promise<{ remoteId: string; url: string }>
+    ): Promise<void> {
+        await this.load();
+        if (!this.data) return;
+
+        const pattern = new RegExp(EMBED_PATTERN.source, 'g');
+        let match: RegExpExecArray | null;
+        while ((match = pattern.exec(body)) !== null) {
+            const file = this.plugin.app.metadataCache.getFirstLinkpathDest(match[1].trim(), sourcePath);
+            if (!file || file.extension === 'md' || this.isUploaded(service, file.path)) continue;
+
+            const content = await this.plugin.app.vault.readBinary(file);
+            const hash = crypto.createHash('sha256').update(new Uint8Array(content)).digest('hex');
+            const { remoteId, url } = await upload(file, content);
+
+            const knownPath = this.data.files[hash];
+            if (!knownPath || !this.plugin.app.vault.getAbstractFileByPath(knownPath)) {
+                this.data.files[hash] = file.path;
+            }
+            this.data.sources[this.getKey(service, remoteId)] = { service, remoteId, noteId: noteId ?? '', url, hash };
+            await this.save();
+            console.log(`Uploaded ${file.path} to ${service}`);
+        }
+    }
+
+    /**
+     * Where a remote file was downloaded to, without downloading it
+     * @returns null if it wasn't downloaded, or the download was deleted since
+     */
+    public async getDownloadedPath(service: SyncProviderId, remoteId: string): Promise<string | null> {
+        await this.load();
+        const hash = this.data?.sources[this.getKey(service, remoteId)]?.hash;
+        const path = hash ? this.data?.files[hash] : undefined;
+        return path && this.plugin.app.vault.getAbstractFileByPath(path) ? path : null;
+    }
+
+    /**
+     * Files of a remote note that weren't downloaded, e.g. for being too large
+     */
+    public getSkippedIds(service: SyncProviderId, noteId: string): string[] {
+        return Object.values(this.data?.sources ?? {})
+            .filter(source => source.service === service && source.noteId === noteId && !source.hash)
+            .map(source => source.remoteId);
+    }
+
+    /**
+     * Add embed lines below a body
+     */
+    public appendEmbeds(body: string, embeds: string[]): string {
+        return [body.trim(), embeds.join('\n')].filter(part => part).join('\n\n');
+    }
+
+    public embed(path: string, alt?: string): string {
+        return alt ? `![[${path}|${alt}]]` : `![[${path}]]`;
+    }
+
+    /**
+     * The source of a downloaded file, preferring the one that came with the given note
+     */
+    private findSource(service: SyncProviderId, path: string, noteId?: string): AttachmentSource | undefined {
+        if (!this.data) return undefined;
+
+        const file = this.plugin.app.metadataCache.getFirstLinkpathDest(path, '');
+        const fullPath = file?.path ?? path;
+        const sources = Object.values(this.data.sources).filter(source =>
+            source.service === service && source.hash && this.data?.files[source.hash] === fullPath
+        );
+        return sources.find(source => source.noteId === noteId) ?? sources[0];
+    }
+
+    private isUploaded(service: SyncProviderId, path: string): boolean {
+        return Object.values(this.data?.sources ?? {}).some(source =>
+            source.service === service && source.hash && this.data?.files[source.hash] === path
+        );
+    }
+
+    private async writeFile(content: ArrayBuffer, hash: string, name: string, contentType?: string): Promise<string> {
+        const folder = normalizePath(this.plugin.settings.attachmentFolder || 'attachments');
+        if (!this.plugin.app.vault.getAbstractFileByPath(folder)) {
+            await this.plugin.app.vault.createFolder(folder).catch(() => {
+                // Folder might already exist, that's okay
+            });
+        }
+
+        // Keep the extension apart, sanitizing would replace its dot
+        const dot = name.lastIndexOf('.');
+        const extension = dot > 0 ? name.substring(dot + 1).toLowerCase() : EXTENSIONS[(contentType || '').split(';')[0].trim()] || 'bin';
+        const baseName = sanitizeFileName(dot > 0 ? name.substring(0, dot) : name) || hash.substring(0, 12);
+
+        let path = normalizePath(`${folder}/${baseName}.${extension}`);
+        if (this.plugin.app.vault.getAbstractFileByPath(path)) {
+            path = normalizePath(`${folder}/${baseName}-${hash.substring(0, 8)}.${extension}`);
+        }
+        if (!this.plugin.app.vault.getAbstractFileByPath(path)) {
+            await this.plugin.app.vault.createBinary(path, content);
+        }
+        return path;
+    }
+
+    private getNameFromUrl(url: string): string {
+        const path = url.split(/[?#]/)[0];
+        return decodeURIComponent(path.substring(path.lastIndexOf('/') + 1)) || 'attachment';
+    }
+
+    /**
+     * Follow a renamed or deleted file or folder in the index
+     * @param newPath The new path, or null if it was deleted
+     */
+    private async onPathChange(oldPath: string, newPath: string | null): Promise<void> {
+        // Files renamed before the index was read are still followed
+        await this.load();
+        if (!this.data) return;
+
+        let changed = false;
+        for (const hash in this.data.files) {
+            const path = this.data.files[hash];
+            if (path !== oldPath && !path.startsWith(oldPath + '/')) continue;
+
+            if (newPath) {
+                this.data.files[hash] = newPath + path.substring(oldPath.length);
+            } else {
+                delete this.data.files[hash];
+            }
+            changed = true;
+        }
+        if (changed) {
+            await this.save();
+        }
+    }
+
+    private getKey(service: string, remoteId: string): string {
+        return `${service}:${remoteId}`;
+    }
+
+    private getFilePath(): string {
+        const pluginDir = this.plugin.manifest.dir || `${this.plugin.app.vault.configDir}/plugins/${this.plugin.manifest.id}`;
+        return normalizePath(`${pluginDir}/attachments.json`);
+    }
+
+    private async save(): Promise<void> {
+        if (!this.data) return;
+        try {
+            await this.plugin.app.vault.adapter.write(this.getFilePath(), JSON.stringify(this.data));
+        } catch (err) {
+            console.error('Failed to save attachment index:', err);
+        }
+    }
+}
@@ -1,13 +1,17 @@
 import { ItemView, WorkspaceLeaf } from 'obsidian';
 import NotesSyncPlugin from './main';
-import { SyncStatus } from './types';
+import { SyncProviderId, SyncStatus } from './types';
 import { ConfirmModal } from './ConfirmModal';
+import { formatRunCounts } from './SyncHistory';
 
 export const VIEW_TYPE_NOTES_SYNC = "notes-sync-view";
 
 export class NotesSyncView extends ItemView {
     plugin: NotesSyncPlugin;
-    private activeServiceTab: 'luojilab' | 'flomo';
+    private activeServiceTab: SyncProviderId;
+
+    // Number of sync runs listed in the history
+    private static readonly HISTORY_RUNS = 20;
 
     constructor(leaf: WorkspaceLeaf, plugin: NotesSyncPlugin) {
         super(leaf);
@@ -31,25 +35,19 @@ export class NotesSyncView extends ItemView {
         // Create tabs for different sync services
         const tabsContainer = container.createEl("div", { cls: "notes-sync-tabs" });
         
-        // LuojiLab tab
-        const luojiLabTab = tabsContainer.createEl("div", { 
-            cls: `notes-sync-tab ${this.activeServiceTab === 'luojilab' ? 'active' : ''}`,
-            text: "LuojiLab"
-        });
-        luojiLabTab.addEventListener("click", () => {
-            this.activeServiceTab = 'luojilab';
-            this.refreshView();
-        });
-        
-        // Flomo tab
-        const flomoTab = tabsContainer.createEl("div", { 
-            cls: `notes-sync-tab ${this.activeServiceTab === 'flomo' ? 'active' : ''}`,
-            text: "Flomo"
-        });
-        flomoTab.addEventListener("click", () => {
-            this.activeServiceTab = 'flomo';
-            this.refreshView();
-        });
+        // One tab per registered sync provider, marked while that service is syncing
+        for (const provider of this.plugin.providers.getAll()) {
+            const enabled = this.plugin.syncManager?.isEnabled(provider.id) ?? false;
+            const syncing = enabled && this.plugin.syncManager.getSyncStatus(provider.id).inProgress;
+            const tab = tabsContainer.createEl("div", { 
+                cls: `notes-sync-tab ${this.activeServiceTab === provider.id ? 'active' : ''} ${enabled ? '' : 'disabled'}`,
+                text: syncing ? `⟳ ${provider.displayName}` : provider.displayName
+            });
+            tab.addEventListener("click", () => {
+                this.activeServiceTab = provider.id;
+                this.refreshView();
+            });
+        }
 
         // Content container
         const contentContainer = container.createEl("div", { cls: "notes-sync-content" });
@@ -62,13 +60,10 @@ export class NotesSyncView extends ItemView {
     }
 
     private refreshView() {
-        // Switch the service in the plugin settings
-        this.plugin.settings.syncService = this.activeServiceTab;
-        this.plugin.saveSettings();
-        
-        // Only update if syncManager is ready
-        if (this.plugin.syncManager) {
-            this.plugin.syncManager.updateSyncService();
+        // Remember the selected tab; the services themselves keep running
+        if (this.plugin.settings.syncService !== this.activeServiceTab) {
+            this.plugin.settings.syncService = this.activeServiceTab;
+            this.plugin.saveSyncState();
         }
         
         // Re-render the view
@@ -81,19 +76,54 @@ export class NotesSyncView extends ItemView {
         const statusContainer = container.createEl("div", { cls: "notes-sync-status" });
         
         // Service-specific heading
-        const serviceTitle = this.activeServiceTab === 'luojilab' ? 'LuojiLab Sync' : 'Flomo Sync';
-        statusContainer.createEl("h5", { text: serviceTitle });
+        const provider = this.plugin.providers.get(this.activeServiceTab);
+        const serviceName = provider?.displayName ?? this.activeServiceTab;
+        statusContainer.createEl("h5", { text: `${serviceName} Sync` });
         
+        if (this.plugin.syncManager && !this.plugin.syncManager.isEnabled(this.activeServiceTab)) {
+            statusContainer.createEl("div", {
+                cls: "sync-status-info",
+                text: `${serviceName} sync is turned off.`
+            });
+            const enableButton = statusContainer.createEl("button", {
+                text: `Enable ${serviceName}`,
+                cls: "sync-button"
+            });
+            enableButton.addEventListener("click", async () => {
+                this.plugin.settings.enabledServices.push(this.activeServiceTab);
+                await this.plugin.saveSettings();
+                this.refreshView();
+            });
+            return;
+        }
+
+        // Pick which accounts sync when the service has more than one
+        const profiles = this.plugin.accounts.getProfiles(this.activeServiceTab);
+        if (profiles.length > 1) {
+            const accountsEl = statusContainer.createEl("div", { cls: "notes-sync-accounts" });
+            for (const profile of profiles) {
+                const label = accountsEl.createEl("label", { cls: "notes-sync-account" });
+                const checkbox = label.createEl("input", { type: "checkbox" });
+                checkbox.checked = profile.enabled;
+                label.appendText(` ${profile.name}`);
+                checkbox.addEventListener("change", async () => {
+                    profile.enabled = checkbox.checked;
+                    await this.plugin.saveSettings();
+                    this.refreshView();
+                });
+            }
+        }
+
         // Service status - get from syncManager if available, otherwise use default values
         let syncStatus: SyncStatus;
         if (this.plugin.syncManager) {
-            syncStatus = this.plugin.syncManager.getSyncStatus();
+            syncStatus = this.plugin.syncManager.getSyncStatus(this.activeServiceTab);
         } else {
             // Default status if syncManager not available
             syncStatus = {
                 inProgress: false,
-                lastSync: this.plugin.settings.lastSyncTime || 0,
-                lastSyncId: this.plugin.settings.lastSyncId || '',
+                lastSync: 0,
+                lastSyncId: '',
                 pendingChanges: 0,
                 errors: [],
                 progress: {
@@ -113,20 +143,34 @@ export class NotesSyncView extends ItemView {
         } else {
             statusEl.textContent = 'Not synced yet';
         }
-        
+
+        // Changes that failed earlier and are waiting in the retry queue
+        if (syncStatus.pendingChanges > 0) {
+            const pendingEl = statusContainer.createEl("div", {
+                cls: "sync-pending-count",
+                text: `${syncStatus.pendingChanges} change${syncStatus.pendingChanges > 1 ? 's' : ''} waiting to sync (click to retry now)`
+            });
+            pendingEl.addEventListener("click", async () => {
+                if (this.plugin.syncManager) {
+                    await this.plugin.syncManager.processQueue(true);
+                }
+                this.refreshView();
+            });
+        }
+
         // Add action buttons
         const buttonsContainer = statusContainer.createEl("div", { cls: "sync-buttons" });
         
         // Sync from server button
         const syncFromButton = buttonsContainer.createEl("button", { 
-            text: this.activeServiceTab === 'luojilab' ? "Sync from LuojiLab" : "Sync from Flomo",
+            text: `Sync from ${serviceName}`,
             cls: "sync-button"
         });
         syncFromButton.addEventListener("click", async () => {
             try {
                 // Try using syncManager, fall back to plugin method if needed
                 if (this.plugin.syncManager) {
-                    await this.plugin.syncManager.syncFromServer();
+                    await this.plugin.syncManager.syncFromServer(undefined, this.activeServiceTab);
                 } else {
                     await this.plugin.syncFromServer();
                 }
@@ -154,7 +198,7 @@ export class NotesSyncView extends ItemView {
                     try {
                         // Try using syncManager, fall back to plugin method if needed
                         if (this.plugin.syncManager) {
-                            await this.plugin.syncManager.fullSyncFromServer();
+                            await this.plugin.syncManager.fullSyncFromServer(this.activeServiceTab);
                         } else {
                             this.displayNotice("Full sync not supported in this version", "error");
                             return;
@@ -173,42 +217,36 @@ export class NotesSyncView extends ItemView {
             }
         });
 
-        // Only show Sync to Server for LuojiLab (since Flomo doesn't support it)
-        if (this.activeServiceTab === 'luojilab') {
+        // Preview what a sync from the server would do, and pick what to apply
+        const previewButton = buttonsContainer.createEl("button", { 
+            text: "Preview Sync",
+            cls: "sync-button"
+        });
+        previewButton.addEventListener("click", async () => {
+            try {
+                await this.plugin.syncManager.previewSync('pull', this.activeServiceTab);
+                this.refreshView();
+            } catch (error) {
+                this.displayNotice(`Preview failed: ${error.message}`, "error");
+            }
+        });
+
+        // Only show Sync to Server for providers that can upload
+        if (provider?.capabilities.push) {
             const syncToButton = buttonsContainer.createEl("button", { 
-                text: "Sync to LuojiLab",
+                text: `Sync to ${serviceName}`,
                 cls: "sync-button"
             });
             syncToButton.addEventListener("click", async () => {
                 try {
                     // Try using syncManager, fall back to plugin method if needed
                     if (this.plugin.syncManager) {
-                        await this.plugin.syncManager.syncToServer();
-                    } else {
-                        await this.plugin.syncToServer();
-                    }
-                    
-                    this.displayNotice("Sync to server completed!", "success");
-                    this.refreshView(); // Update status after sync
-                } catch (error) {
-                    this.displayNotice(`Sync failed: ${error.message}`, "error");
-                }
-            });
-        } else if (this.activeServiceTab === 'flomo') {
-            // Now we support syncing to Flomo
-            const syncToButton = buttonsContainer.createEl("button", { 
-                text: "Sync to Flomo",
-                cls: "sync-button"
-            });
-            syncToButton.addEventListener("click", async () => {
-                try {
-                    if (this.plugin.syncManager) {
-                        await this.plugin.syncManager.syncToServer();
+                        await this.plugin.syncManager.syncToServer(this.activeServiceTab);
                     } else {
                         await this.plugin.syncToServer();
                     }
                     
-                    this.displayNotice("Sync to Flomo completed!", "success");
+                    this.displayNotice(`Sync to ${serviceName} completed!`, "success");
                     this.refreshView(); // Update status after sync
                 } catch (error) {
                     this.displayNotice(`Sync failed: ${error.message}`, "error");
@@ -225,7 +263,7 @@ export class NotesSyncView extends ItemView {
             cancelButton.addEventListener("click", () => {
                 // Use syncManager if available
                 if (this.plugin.syncManager) {
-                    this.plugin.syncManager.cancelSync();
+                    this.plugin.syncManager.cancelSync(this.activeServiceTab);
                 }
                 
                 this.displayNotice("Cancelling sync...", "info");
@@ -251,6 +289,61 @@ export class NotesSyncView extends ItemView {
                 this.showErrors(syncStatus.errors);
             });
         }
+
+        this.renderHistory(container);
+    }
+
+    /**
+     * The latest sync runs of the active service, each listing what it did to the notes
+     */
+    private async renderHistory(container: HTMLElement) {
+        const historyContainer = container.createEl("div", { cls: "notes-sync-history" });
+        const header = historyContainer.createEl("div", { cls: "notes-sync-history-header" });
+        header.createEl("h5", { text: "Sync History" });
+
+        const runs = (await this.plugin.syncHistory.getRuns(this.activeServiceTab)).slice(0, NotesSyncView.HISTORY_RUNS);
+        if (runs.length === 0) {
+            historyContainer.createEl("div", { cls: "sync-status-info", text: "No syncs recorded yet" });
+            return;
+        }
+
+        const clearBtn = header.createEl("button", { text: "Clear History", cls: "sync-button" });
+        clearBtn.addEventListener("click", async () => {
+            await this.plugin.syncHistory.clear(this.activeServiceTab);
+            this.refreshView();
+        });
+
+        const showAccount = this.plugin.accounts.getProfiles(this.activeServiceTab).length > 1;
+        for (const run of runs) {
+            const runEl = historyContainer.createEl("details", { cls: `sync-history-run ${run.status}` });
+            const parts = [
+                new Date(run.startedAt).toLocaleString(),
+                `${run.direction === 'pull' ? 'Pull' : 'Push'} (${run.trigger})`,
+                ...(showAccount ? [run.account] : []),
+                run.status === 'completed' ? formatRunCounts(run) : `${run.status}: ${formatRunCounts(run)}`
+            ];
+            runEl.createEl("summary", { text: parts.join(' · ') });
+
+            if (run.error) {
+                runEl.createEl("div", { cls: "error-message", text: run.error });
+            }
+
+            const notesList = runEl.createEl("ul", { cls: "sync-history-notes" });
+            for (const note of run.notes) {
+                const li = notesList.createEl("li", { cls: `sync-history-note ${note.action}` });
+                li.createSpan({ cls: "sync-history-action", text: note.action });
+                const titleEl = li.createSpan({ text: ` ${note.title}` });
+                if (note.path && this.app.vault.getAbstractFileByPath(note.path)) {
+                    titleEl.addClass("sync-history-link");
+                    titleEl.addEventListener("click", () => {
+                        this.app.workspace.openLinkText(note.path, '', false);
+                    });
+                }
+                if (note.detail) {
+                    li.createEl("div", { cls: "sync-history-detail", text: note.detail });
+                }
+            }
+        }
     }
     
     private showErrors(errors: Array<{file: string, error: string, timestamp: number}>) {
@@ -293,7 +386,7 @@ export class NotesSyncView extends ItemView {
         clearBtn.addEventListener("click", () => {
             // Use syncManager if available
             if (this.plugin.syncManager) {
-                this.plugin.syncManager.clearErrors();
+                this.plugin.syncManager.clearErrors(this.activeServiceTab);
             }
             
             errorsContainer.remove();
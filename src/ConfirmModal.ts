@@ -4,10 +4,12 @@ export class ConfirmModal extends Modal {
     private result: boolean;
     private onConfirm: (result: boolean) => void;
     private message: string;
+    private confirmText: string;
 
-    constructor(app: App, message: string, onConfirm: (result: boolean) => void) {
+    constructor(app: App, message: string, onConfirm: (result: boolean) => void, confirmText = 'Delete') {
         super(app);
         this.message = message;
+        this.confirmText = confirmText;
         this.onConfirm = onConfirm;
         this.result = false;
     }
@@ -24,7 +26,7 @@ export class ConfirmModal extends Modal {
             this.close();
         });
         
-        buttonContainer.createEl('button', {text: 'Delete', cls: 'mod-warning'}).addEventListener('click', () => {
+        buttonContainer.createEl('button', {text: this.confirmText, cls: 'mod-warning'}).addEventListener('click', () => {
             this.result = true;
             this.close();
         });
@@ -0,0 +1,136 @@
+import { App, Modal } from 'obsidian';
+import { diffSideBySide } from './ThreeWayMerge';
+
+export type ConflictChoice = 'local' | 'remote' | 'both' | 'merge' | 'skip';
+
+export interface ConflictModalResult {
+    choice: ConflictChoice;
+    mergedContent?: string;   // Set when the user edited the merge by hand
+    applyToAll: boolean;      // Reuse the choice for the remaining conflicts of this sync
+}
+
+export class ConflictModal extends Modal {
+    private result: ConflictModalResult;
+    private onResolve: (result: ConflictModalResult) => void;
+    private fileName: string;
+    private localContent: string;
+    private remoteContent: string;
+    private mergedContent: string;
+
+    constructor(
+        app: App,
+        fileName: string,
+        localContent: string,
+        remoteContent: string,
+        mergedContent: string,
+        onResolve: (result: ConflictModalResult) => void
+    ) {
+        super(app);
+        this.fileName = fileName;
+        this.localContent = localContent;
+        this.remoteContent = remoteContent;
+        this.mergedContent = mergedContent;
+        this.onResolve = onResolve;
+        this.result = { choice: 'skip', applyToAll: false };
+    }
+
+    onOpen() {
+        this.modalEl.addClass('notes-sync-conflict-modal');
+        this.renderDiff();
+    }
+
+    private renderDiff() {
+        const {contentEl} = this;
+        contentEl.empty();
+
+        contentEl.createEl('h3', {text: `Conflict: ${this.fileName}`});
+        contentEl.createEl('p', {
+            text: 'This note was changed both locally and on the server in the same place.',
+            cls: 'conflict-description'
+        });
+
+        // Side-by-side diff
+        const diffEl = contentEl.createDiv('conflict-diff');
+        const header = diffEl.createDiv('conflict-diff-row conflict-diff-header');
+        header.createDiv({text: 'Local', cls: 'conflict-diff-cell'});
+        header.createDiv({text: 'Remote', cls: 'conflict-diff-cell'});
+
+        for (const row of diffSideBySide(this.localContent, this.remoteContent)) {
+            const rowEl = diffEl.createDiv(`conflict-diff-row${row.changed ? ' changed' : ''}`);
+            rowEl.createDiv({
+                text: row.local ?? '',
+                cls: `conflict-diff-cell${row.changed && row.local !== null ? ' removed' : ''}`
+            });
+            rowEl.createDiv({
+                text: row.remote ?? '',
+                cls: `conflict-diff-cell${row.changed && row.remote !== null ? ' added' : ''}`
+            });
+        }
+
+        // Apply to all remaining conflicts
+        const applyAllLabel = contentEl.createEl('label', {cls: 'conflict-apply-all'});
+        const applyAllCheckbox = applyAllLabel.createEl('input', {attr: {type: 'checkbox'}}) as HTMLInputElement;
+        applyAllCheckbox.checked = this.result.applyToAll;
+        applyAllLabel.appendText(' Apply to all remaining conflicts in this sync');
+        applyAllCheckbox.addEventListener('change', () => {
+            this.result.applyToAll = applyAllCheckbox.checked;
+        });
+
+        const buttonContainer = contentEl.createDiv('button-container');
+
+        buttonContainer.createEl('button', {text: 'Keep local'}).addEventListener('click', () => {
+            this.choose('local');
+        });
+
+        buttonContainer.createEl('button', {text: 'Take remote'}).addEventListener('click', () => {
+            this.choose('remote');
+        });
+
+        buttonContainer.createEl('button', {text: 'Keep both'}).addEventListener('click', () => {
+            this.choose('both');
+        });
+
+        buttonContainer.createEl('button', {text: 'Edit merge', cls: 'mod-cta'}).addEventListener('click', () => {
+            this.renderMergeEditor();
+        });
+    }
+
+    private renderMergeEditor() {
+        const {contentEl} = this;
+        contentEl.empty();
+
+        contentEl.createEl('h3', {text: `Edit merge: ${this.fileName}`});
+        contentEl.createEl('p', {
+            text: 'Conflicting regions are wrapped in <<<<<<< / ======= / >>>>>>> markers. Edit the text and save.',
+            cls: 'conflict-description'
+        });
+
+        const textarea = contentEl.createEl('textarea', {cls: 'conflict-merge-editor'});
+        textarea.value = this.mergedContent;
+
+        const buttonContainer = contentEl.createDiv('button-container');
+
+        buttonContainer.createEl('button', {text: 'Back'}).addEventListener('click', () => {
+            this.mergedContent = textarea.value;
+            this.renderDiff();
+        });
+
+        buttonContainer.createEl('button', {text: 'Save merge', cls: 'mod-cta'}).addEventListener('click', () => {
+            this.result.mergedContent = textarea.value;
+            // A hand-edited merge only applies to this note
+            this.result.applyToAll = false;
+            this.choose('merge');
+        });
+    }
+
+    private choose(choice: ConflictChoice) {
+        this.result.choice = choice;
+        this.close();
+    }
+
+    onClose() {
+        const {contentEl} = this;
+        contentEl.empty();
+        this.onResolve(this.result);
+    }
+}
@@ -0,0 +1,180 @@
+import { TFile } from 'obsidian';
+import NotesSyncPlugin from './main';
+import { mergeThreeWay } from './ThreeWayMerge';
+import { ConflictChoice, ConflictModal, ConflictModalResult } from './ConflictModal';
+
+export interface ConflictResolution {
+    body: string;                                  // Body to write to the local file
+    status: 'synced' | 'pending' | 'conflict';     // Value for the sync_status frontmatter key
+    changed: boolean;                              // Whether the local body changes
+    localCopy?: string;                            // Local body to keep as a separate file ("keep both")
+}
+
+/**
+ * Decides what a local note should contain when a remote update arrives,
+ * using the body from the last sync as the merge base.
+ */
+export class ConflictResolver {
+    private plugin: NotesSyncPlugin;
+    private service: string;
+    private interactive: boolean;
+    private choiceForRemaining: ConflictChoice | null;
+
+    constructor(plugin: NotesSyncPlugin, service: string) {
+        this.plugin = plugin;
+        this.service = service;
+        this.interactive = false;
+        this.choiceForRemaining = null;
+    }
+
+    /**
+     * Start a new sync run. Forgets any "apply to all" choice from the previous run.
+     * @param interactive Whether conflicts may be shown in a modal (false for auto sync)
+     */
+    public beginRun(interactive: boolean): void {
+        this.interactive = interactive;
+        this.choiceForRemaining = null;
+    }
+
+    /**
+     * Reconcile a local body with an incoming remote body
+     * @param remoteId The remote note ID used to look up the merge base
+     * @param localBody Current body of the local file
+     * @param remoteBody Body received from the server
+     * @param fileName Name shown to the user if they are asked to resolve a conflict
+     */
+    public async resolve(remoteId: string, localBody: string, remoteBody: string, fileName: string): Promise<ConflictResolution> {
+        if (localBody === remoteBody) {
+            return { body: remoteBody, status: 'synced', changed: false };
+        }
+
+        // Without a recorded base (notes synced by older versions) we can't tell who
+        // changed what, so the whole body becomes a single conflicting region
+        const base = await this.plugin.mergeBaseStore.get(this.service, remoteId);
+
+        if (base !== undefined && localBody === base) {
+            // Only the remote side changed
+            return { body: remoteBody, status: 'synced', changed: true };
+        }
+
+        if (base !== undefined && remoteBody === base) {
+            // Only the local side changed, keep it until it's pushed
+            return { body: localBody, status: 'pending', changed: false };
+        }
+
+        const merged = mergeThreeWay(base ?? '', localBody, remoteBody);
+        if (merged.clean) {
+            console.log(`Merged local and remote changes for ${this.service} note ${remoteId}`);
+            return { body: merged.content, status: 'pending', changed: merged.content !== localBody };
+        }
+
+        // Overlapping edits, fall back to the configured preference
+        const preference = this.plugin.settings.conflictResolution;
+        if (preference === 'remote') {
+            return this.applyChoice('remote', localBody, remoteBody, merged.content);
+        }
+        if (preference === 'local') {
+            return this.applyChoice('local', localBody, remoteBody, merged.content);
+        }
+
+        if (this.choiceForRemaining) {
+            return this.applyChoice(this.choiceForRemaining, localBody, remoteBody, merged.content);
+        }
+
+        if (this.interactive) {
+            const result = await this.ask(fileName, localBody, remoteBody, merged.content);
+            if (result.applyToAll && result.choice !== 'merge' && result.choice !== 'skip') {
+                this.choiceForRemaining = result.choice;
+            }
+            return this.applyChoice(result.choice, localBody, remoteBody, merged.content, result.mergedContent);
+        }
+
+        console.log(`Unresolved conflict in ${merged.conflicts} region(s) for ${this.service} note ${remoteId}`);
+        return this.applyChoice('skip', localBody, remoteBody, merged.content);
+    }
+
+    /**
+     * What resolve() would make of a remote update, without asking the user or writing anything
+     * @param normalizeBase Brings the recorded base into the form of the bodies being compared
+     * @returns 'unchanged' if the bodies are the same, 'remote' or 'local' if only that side
+     * changed, 'merged' if both sides merge cleanly, otherwise 'conflict'
+     */
+    public async preview(
+        remoteId: string,
+        localBody: string,
+        remoteBody: string,
+        normalizeBase: (base: string) => string = base => base
+    ): Promise<'unchanged' | 'remote' | 'local' | 'merged' | 'conflict'> {
+        if (localBody === remoteBody) {
+            return 'unchanged';
+        }
+
+        const stored = await this.plugin.mergeBaseStore.get(this.service, remoteId);
+        const base = stored !== undefined ? normalizeBase(stored) : undefined;
+        if (base !== undefined && localBody === base) {
+            return 'remote';
+        }
+        if (base !== undefined && remoteBody === base) {
+            return 'local';
+        }
+        return mergeThreeWay(base ?? '', localBody, remoteBody).clean ? 'merged' : 'conflict';
+    }
+
+    /**
+     * Record the body the server now holds, as the base for the next merge
+     */
+    public async recordBase(remoteId: string, remoteBody: string): Promise<void> {
+        await this.plugin.mergeBaseStore.set(this.service, remoteId, remoteBody);
+    }
+
+    /**
+     * Save the local side of a "keep both" resolution next to the synced file.
+     * The copy has no remote ID, so it's treated as a new note on the next push.
+     */
+    public async saveLocalCopy(file: TFile, body: string): Promise<TFile> {
+        const folder = file.parent ? file.parent.path : '';
+        const prefix = folder && folder !== '/' ? `${folder}/` : '';
+        const date = new Date().toISOString().split('T')[0];
+
+        let copyPath = `${prefix}${file.basename} (local copy ${date}).md`;
+        let counter = 2;
+        while (this.plugin.app.vault.getAbstractFileByPath(copyPath)) {
+            copyPath = `${prefix}${file.basename} (local copy ${date} ${counter}).md`;
+            counter++;
+        }
+
+        console.log(`Keeping local version of ${file.path} as ${copyPath}`);
+        return await this.plugin.app.vault.create(copyPath, body);
+    }
+
+    private applyChoice(
+        choice: ConflictChoice,
+        localBody: string,
+        remoteBody: string,
+        mergedBody: string,
+        editedBody?: string
+    ): ConflictResolution {
+        switch (choice) {
+            case 'local':
+                return { body: localBody, status: 'pending', changed: false };
+            case 'remote':
+                return { body: remoteBody, status: 'synced', changed: true };
+            case 'both':
+                return { body: remoteBody, status: 'synced', changed: true, localCopy: localBody };
+            case 'merge': {
+                const body = editedBody ?? mergedBody;
+                const unresolved = /^<<<<<<< /m.test(body);
+                return { body, status: unresolved ? 'conflict' : 'pending', changed: body !== localBody };
+            }
+            default:
+                // Leave the conflict markers in the note for manual resolution
+                return { body: mergedBody, status: 'conflict', changed: true };
+        }
+    }
+
+    private ask(fileName: string, localBody: string, remoteBody: string, mergedBody: string): Promise<ConflictModalResult> {
+        return new Promise(resolve => {
+            new ConflictModal(this.plugin.app, fileName, localBody, remoteBody, mergedBody, resolve).open();
+        });
+    }
+}
@@ -0,0 +1,54 @@
+/**
+ * Content hashes for detecting changed notes.
+ *
+ * A note's hash covers its body and the frontmatter keys that are synced to
+ * the server. Sync metadata (last_synced, sync_status, ...) is left out so that
+ * writing it doesn't make a note look edited. The hash stored in a note's
+ * `content_hash` key is the hash of the content the server held at the last sync.
+ */
+
+// Frontmatter keys that are sent to the server along with the body
+export const SYNCABLE_FRONTMATTER_KEYS = ['title', 'tags'];
+
+export function computeContentHash(
+    body: string,
+    frontMatter?: Record<string, unknown> | null,
+    keys: string[] = SYNCABLE_FRONTMATTER_KEYS
+): string {
+    const fields: Record<string, string | string[]> = {};
+    for (const key of keys) {
+        const value = frontMatter?.[key];
+        if (value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0)) continue;
+        fields[key] = Array.isArray(value) ? value.map(item => String(item)) : String(value);
+    }
+
+    const normalizedBody = body.replace(/\r\n/g, '\n').trim();
+    return hashString(JSON.stringify(fields) + '\n' + normalizedBody);
+}
+
+/**
+ * Read the stored hash from parsed frontmatter
+ */
+export function getStoredContentHash(frontMatter?: Record<string, unknown> | null): string | null {
+    const value = frontMatter?.content_hash;
+    return value ? String(value) : null;
+}
+
+/**
+ * 53-bit string hash (cyrb53). Not cryptographic, but fast, synchronous and
+ * more than enough to tell whether a note changed.
+ */
+function hashString(text: string): string {
+    let h1 = 0xdeadbeef;
+    let h2 = 0x41c6ce57;
+    for (let i = 0; i < text.length; i++) {
+        const ch = text.charCodeAt(i);
+        h1 = Math.imul(h1 ^ ch, 2654435761);
+        h2 = Math.imul(h2 ^ ch, 1597334677);
+    }
+    h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+    h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+
+    const hash = 4294967296 * (2097151 & h2) + (h1 >>> 0);
+    return hash.toString(16).padStart(14, '0');
+}
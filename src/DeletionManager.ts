@@ -0,0 +1,263 @@
+import { CachedMetadata, Notice, TFile, normalizePath } from 'obsidian';
+import NotesSyncPlugin from './main';
+import { Tombstone } from './types';
+import { ConfirmModal } from './ConfirmModal';
+
+/**
+ * Propagates deletions between the vault and the remote services.
+ *
+ * Every deletion leaves a tombstone keyed by the remote ID, so a note deleted
+ * on one side is never re-created from the other side by a later sync.
+ */
+export class DeletionManager {
+    private plugin: NotesSyncPlugin;
+    private pendingLocalDeletes: Tombstone[];
+    private flushTimer: number | null;
+    private localOnly: Set<string>;     // Paths being deleted without deleting their remote notes
+
+    // Propagated tombstones older than this are forgotten
+    private static readonly TOMBSTONE_RETENTION = 180 * 24 * 60 * 60 * 1000;
+    // Deletes that arrive close together (e.g. a deleted folder) are confirmed as one batch
+    private static readonly BATCH_DELAY = 500;
+
+    constructor(plugin: NotesSyncPlugin) {
+        this.plugin = plugin;
+        this.pendingLocalDeletes = [];
+        this.flushTimer = null;
+        this.localOnly = new Set();
+
+        if (!Array.isArray(this.plugin.settings.tombstones)) {
+            this.plugin.settings.tombstones = [];
+        }
+        this.pruneTombstones();
+    }
+
+    /**
+     * Listen for deleted notes. The metadata cache event still carries the
+     * frontmatter of the deleted file, which is how we find its remote ID.
+     */
+    public register(): void {
+        this.plugin.registerEvent(
+            this.plugin.app.metadataCache.on('deleted', (file: TFile, prevCache: CachedMetadata | null) => {
+                this.onLocalDelete(file, prevCache);
+            })
+        );
+    }
+
+    public isDeleted(service: Tombstone['service'], remoteId: string): boolean {
+        return this.plugin.settings.tombstones.some(tombstone =>
+            tombstone.service === service && tombstone.remoteId === remoteId
+        );
+    }
+
+    public async markPropagated(service: Tombstone['service'], remoteId: string): Promise<void> {
+        const tombstone = this.plugin.settings.tombstones.find(t => t.service === service && t.remoteId === remoteId);
+        if (tombstone && !tombstone.propagated) {
+            tombstone.propagated = true;
+            await this.plugin.saveSyncState();
+        }
+    }
+
+    /**
+     * Record that a note was deleted on the server by the user from within Obsidian
+     */
+    public async recordRemoteDelete(service: Tombstone['service'], remoteId: string, path: string): Promise<void> {
+        await this.plugin.syncState.delete(service, remoteId);
+        await this.addTombstone({
+            service,
+            remoteId,
+            path,
+            deletedAt: Date.now(),
+            origin: 'local',
+            propagated: true
+        });
+    }
+
+    /**
+     * Handle notes that no longer exist on the server.
+     * Depending on the policy, the local files are moved to the trash folder.
+     */
+    public async handleRemoteDeletions(
+        service: Tombstone['service'],
+        deletions: Array<{ remoteId: string; file: TFile }>
+    ): Promise<number> {
+        const policy = this.plugin.settings.remoteDeletePolicy;
+        if (deletions.length === 0 || policy === 'never') {
+            return 0;
+        }
+
+        if (policy === 'ask') {
+            const names = deletions.slice(0, 5).map(d => d.file.basename).join(', ');
+            const more = deletions.length > 5 ? ` and ${deletions.length - 5} more` : '';
+            const confirmed = await this.confirm(
+                `${deletions.length} note${deletions.length > 1 ? 's were' : ' was'} deleted on ${this.getServiceName(service)} (${names}${more}). ` +
+                `Move the local ${deletions.length > 1 ? 'copies' : 'copy'} to "${this.plugin.settings.trashFolder}"?`
+            );
+            if (!confirmed) {
+                return 0;
+            }
+        }
+
+        let moved = 0;
+        for (const { remoteId, file } of deletions) {
+            try {
+                const originalPath = file.path;
+                await this.moveToTrash(file);
+                await this.addTombstone({
+                    service,
+                    remoteId,
+                    path: originalPath,
+                    deletedAt: Date.now(),
+                    origin: 'remote',
+                    propagated: true
+                });
+                await this.plugin.mergeBaseStore.delete(service, remoteId);
+                await this.plugin.syncState.delete(service, remoteId);
+                moved++;
+            } catch (err) {
+                console.error(`Failed to move ${file.path} to trash:`, err);
+            }
+        }
+
+        if (moved > 0) {
+            new Notice(`Moved ${moved} remotely deleted note${moved > 1 ? 's' : ''} to ${this.plugin.settings.trashFolder}`);
+        }
+        return moved;
+    }
+
+    /**
+     * Move a note to the system trash without deleting its remote note,
+     * e.g. a note that rolling back a sync removes
+     */
+    public async trashLocally(file: TFile): Promise<void> {
+        this.localOnly.add(file.path);
+        try {
+            await this.plugin.app.vault.trash(file, true);
+        } catch (err) {
+            this.localOnly.delete(file.path);
+            throw err;
+        }
+    }
+
+    private onLocalDelete(file: TFile, prevCache: CachedMetadata | null): void {
+        if (this.localOnly.delete(file.path)) return;
+
+        const match = this.plugin.providers.findByFrontMatter(prevCache?.frontmatter);
+        if (!match || !match.provider.capabilities.delete) return;
+
+        const service = match.provider.id;
+        const remoteId = match.remoteId;
+
+        // Already gone on the server (e.g. emptying the trash folder)
+        if (this.isDeleted(service, remoteId)) return;
+
+        this.pendingLocalDeletes.push({
+            service,
+            remoteId,
+            path: file.path,
+            deletedAt: Date.now(),
+            origin: 'local',
+            propagated: false
+        });
+
+        if (this.flushTimer) {
+            window.clearTimeout(this.flushTimer);
+        }
+        this.flushTimer = window.setTimeout(() => {
+            this.flushTimer = null;
+            this.flushLocalDeletes();
+        }, DeletionManager.BATCH_DELAY);
+    }
+
+    private async flushLocalDeletes(): Promise<void> {
+        const deletes = this.pendingLocalDeletes;
+        this.pendingLocalDeletes = [];
+        if (deletes.length === 0) return;
+
+        // Deletions that stay local leave no tombstone, so the notes can still be pulled again
+        const policy = this.plugin.settings.localDeletePolicy;
+        if (policy === 'never') {
+            return;
+        }
+
+        if (policy === 'ask') {
+            const confirmed = await this.confirm(deletes.length === 1
+                ? `Also delete "${this.getBaseName(deletes[0].path)}" from ${this.getServiceName(deletes[0].service)}?`
+                : `Also delete these ${deletes.length} notes from the remote server?`
+            );
+            if (!confirmed) return;
+        }
+
+        let deleted = 0;
+        for (const tombstone of deletes) {
+            // Until the deletion reaches the server, the tombstone keeps the note from being pulled back
+            await this.addTombstone(tombstone);
+            try {
+                await this.plugin.syncManager.getServiceForPath(tombstone.service, tombstone.path).deleteRemoteNote(tombstone.remoteId);
+                await this.markPropagated(tombstone.service, tombstone.remoteId);
+                deleted++;
+            } catch (err) {
+                console.error(`Failed to delete remote note ${tombstone.remoteId}:`, err);
+                // Retry later through the sync queue
+                await this.plugin.syncQueue.enqueue({
+                    service: tombstone.service,
+                    profileId: this.plugin.accounts.findByPath(tombstone.service, tombstone.path).id,
+                    type: 'delete',
+                    path: tombstone.path,
+                    remoteId: tombstone.remoteId,
+                    lastError: err.message
+                });
+            }
+        }
+
+        if (deleted > 0) {
+            new Notice(`Deleted ${deleted} note${deleted > 1 ? 's' : ''} from the remote server`);
+        }
+    }
+
+    private async moveToTrash(file: TFile): Promise<void> {
+        const trashFolder = normalizePath(this.plugin.settings.trashFolder || 'notes-sync-trash');
+        let targetPath = normalizePath(`${trashFolder}/${file.path}`);
+
+        const targetFolder = targetPath.substring(0, targetPath.lastIndexOf('/'));
+        if (!(await this.plugin.app.vault.adapter.exists(targetFolder))) {
+            await this.plugin.app.vault.createFolder(targetFolder);
+        }
+
+        if (this.plugin.app.vault.getAbstractFileByPath(targetPath)) {
+            targetPath = targetPath.replace(/\.md$/, `-${Date.now()}.md`);
+        }
+
+        await this.plugin.app.vault.rename(file, targetPath);
+        console.log(`Moved remotely deleted note ${file.path} to ${targetPath}`);
+    }
+
+    private async addTombstone(tombstone: Tombstone): Promise<void> {
+        this.plugin.settings.tombstones = this.plugin.settings.tombstones.filter(t =>
+            !(t.service === tombstone.service && t.remoteId === tombstone.remoteId)
+        );
+        this.plugin.settings.tombstones.push(tombstone);
+        await this.plugin.saveSyncState();
+    }
+
+    private pruneTombstones(): void {
+        const cutoff = Date.now() - DeletionManager.TOMBSTONE_RETENTION;
+        this.plugin.settings.tombstones = this.plugin.settings.tombstones.filter(t =>
+            !t.propagated || t.deletedAt > cutoff
+        );
+    }
+
+    private confirm(message: string): Promise<boolean> {
+        return new Promise(resolve => {
+            new ConfirmModal(this.plugin.app, message, resolve).open();
+        });
+    }
+
+    private getServiceName(service: Tombstone['service']): string {
+        return this.plugin.providers.getDisplayName(service);
+    }
+
+    private getBaseName(path: string): string {
+        return path.substring(path.lastIndexOf('/') + 1).replace(/\.md$/, '');
+    }
+}
@@ -0,0 +1,111 @@
+import { describe, it } from 'node:test';
+import { strict as assert } from 'node:assert';
+import { flomoHtmlToMarkdown, isFlomoHtml, markdownToFlomoHtml } from './FlomoMarkdown';
+
+// Memo HTML as Flomo writes it, and the Markdown it becomes
+const FIXTURES: Array<{ name: string; html: string; markdown: string }> = [
+    {
+        name: 'paragraphs and empty paragraphs',
+        html: '<p>first</p><p></p><p>second</p>',
+        markdown: 'first\n\nsecond'
+    },
+    {
+        name: 'entities',
+        html: '<p>a &amp; b &lt; c &gt; d "quoted"</p>',
+        markdown: 'a & b < c > d "quoted"'
+    },
+    {
+        name: 'inline formatting',
+        html: '<p><strong>bold</strong> <em>italic</em> <mark>marked</mark> <s>struck</s> #tag</p>',
+        markdown: '**bold** *italic* ==marked== ~~struck~~ #tag'
+    },
+    {
+        name: 'links',
+        html: '<p>see <a href="https://example.com/?a=1&amp;b=2">the site</a></p>',
+        markdown: 'see [the site](https://example.com/?a=1&b=2)'
+    },
+    {
+        name: 'links with parentheses',
+        html: '<p><a href="https://x.com/a_(b)">l</a> and <a href="https://x.com/a_(b">m</a></p>',
+        markdown: '[l](https://x.com/a_(b)) and [m](https://x.com/a_\\(b)'
+    },
+    {
+        name: 'paragraphs with leading spaces',
+        html: '<p>  indented</p><p>  - not a list</p><ul><li><p> spaced</p><p>  indented more</p></li></ul>',
+        markdown: '  indented\n  \\- not a list\n-  spaced\n\t  indented more'
+    },
+    {
+        name: 'line breaks',
+        html: '<p>one<br>two</p>',
+        markdown: 'one<br>two'
+    },
+    {
+        name: 'underline',
+        html: '<p><u>underlined</u> text</p>',
+        markdown: '<u>underlined</u> text'
+    },
+    {
+        name: 'literal underline tags',
+        html: '<p>&lt;u&gt;not underlined&lt;/u&gt; and &lt;br&gt;</p>',
+        markdown: '\\<u>not underlined\\</u> and \\<br>'
+    },
+    {
+        name: 'text that reads like Markdown',
+        html: '<p>- not a list</p><p>1. not a list either</p><p>*stars* [brackets] ==equals== ~~tildes~~</p>',
+        markdown: '\\- not a list\n1\\. not a list either\n\\*stars\\* \\[brackets\\] \\==equals\\== \\~~tildes\\~~'
+    },
+    {
+        name: 'lists',
+        html: '<ul><li><p>one</p></li><li><p>two</p></li></ul><p>after</p><ol><li><p>first</p></li><li><p>second</p></li></ol>',
+        markdown: '- one\n- two\n\nafter\n1. first\n2. second'
+    },
+    {
+        name: 'nested lists',
+        html: '<ul><li><p>one</p><ol><li><p>inner</p><ul><li><p>deepest</p></li></ul></li></ol></li><li><p>two</p></li></ul>',
+        markdown: '- one\n\t1. inner\n\t\t- deepest\n- two'
+    },
+    {
+        name: 'list items with several paragraphs',
+        html: '<ul><li><p>item</p><p>more of the item</p></li></ul><p>after</p>',
+        markdown: '- item\n\tmore of the item\n\nafter'
+    }
+];
+
+describe('FlomoMarkdown', () => {
+    describe('flomoHtmlToMarkdown', () => {
+        for (const fixture of FIXTURES) {
+            it(`converts ${fixture.name}`, () => {
+                assert.equal(flomoHtmlToMarkdown(fixture.html), fixture.markdown);
+            });
+        }
+
+        it('leaves plain text memos alone', () => {
+            assert.equal(flomoHtmlToMarkdown('plain & <simple>'), 'plain & <simple>');
+        });
+
+        it('decodes numeric entities and non-breaking spaces', () => {
+            assert.equal(flomoHtmlToMarkdown('<p>&#39;a&#x27;&nbsp;b</p>'), "'a' b");
+        });
+    });
+
+    describe('markdownToFlomoHtml', () => {
+        for (const fixture of FIXTURES) {
+            it(`converts ${fixture.name} back`, () => {
+                assert.equal(markdownToFlomoHtml(fixture.markdown), fixture.html);
+            });
+        }
+
+        it('drops empty lines at the end', () => {
+            assert.equal(markdownToFlomoHtml('text\n\n\n'), '<p>text</p>');
+        });
+    });
+
+    describe('isFlomoHtml', () => {
+        it('tells memo HTML from plain text', () => {
+            assert.equal(isFlomoHtml('<p>text</p>'), true);
+            assert.equal(isFlomoHtml('  <ul><li>item</li></ul>'), true);
+            assert.equal(isFlomoHtml('<u>text</u>'), false);
+            assert.equal(isFlomoHtml('text'), false);
+        });
+    });
+});
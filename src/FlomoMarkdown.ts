@@ -0,0 +1,325 @@
+/**
+ * Conversion between Flomo's memo HTML and Markdown.
+ *
+ * Flomo memos are made of paragraphs and lists, with bold, italic, underline,
+ * strikethrough, highlight and links inside them; tags are plain `#text`.
+ * Each paragraph becomes one line of Markdown, so an empty paragraph is an
+ * empty line. A list is followed by an empty line that ends it and doesn't
+ * count as a paragraph. Converting a memo to Markdown and back gives the same
+ * HTML, except for empty paragraphs at the very start or end, which a note
+ * body can't hold.
+ */
+
+const TOKEN_PATTERN = /<(\/?)([a-zA-Z][a-zA-Z0-9]*)([^>]*)>|([^<]+)/g;
+// The marker is followed by one space, more belong to the item's text
+const LIST_ITEM_PATTERN = /^([ \t]*)([-*+]|\d+\.)[ \t](.*)$/;
+// A link destination, which may hold balanced parentheses as Wikipedia links do, or escaped ones
+const LINK_PATTERN = /\[([^\]]*)\]\(((?:\\[()]|[^()\s]|\([^()\s]*\))*)\)/g;
+
+// HTML kept as is in Markdown, which has no syntax for it
+const RAW_TAGS = /&lt;(\/?(?:u|br)\s*\/?)&gt;/g;
+
+const ENTITIES: Record<string, string> = {
+    amp: '&',
+    lt: '<',
+    gt: '>',
+    quot: '"',
+    apos: "'",
+    nbsp: ' '
+};
+
+// Characters that can be escaped with a backslash to stay plain text
+const ESCAPED_PATTERN = /\\([*[\]=~+.<-])/g;
+const ESCAPABLE = '*[]=~+.-<';
+
+interface OpenList {
+    type: 'ul' | 'ol';
+    indent: number;     // Indent width of the items in Markdown
+    counter: number;
+}
+
+/**
+ * Whether memo content is HTML, as written by Flomo, rather than plain text
+ */
+export function isFlomoHtml(content: string): boolean {
+    return /^\s*<(p|ul|ol)[\s>]/i.test(content);
+}
+
+export function flomoHtmlToMarkdown(html: string): string {
+    if (!isFlomoHtml(html)) {
+        return html;
+    }
+
+    const lines: string[] = [];
+    const lists: OpenList[] = [];
+    const links: string[] = [];
+    let text = '';
+    let inBlock = false;
+    let itemStarted = false;    // The current list item already has its first line
+
+    const flush = () => {
+        if (!inBlock) return;
+        const line = text.replace(/\n/g, ' ');
+        const list = lists[lists.length - 1];
+        if (!list) {
+            lines.push(escapeLineStart(line));
+        } else if (!itemStarted) {
+            const marker = list.type === 'ol' ? `${list.counter}.` : '-';
+            lines.push(`${'\t'.repeat(lists.length - 1)}${marker} ${line}`);
+            itemStarted = true;
+        } else {
+            // Further paragraphs of the same item
+            lines.push(`${'\t'.repeat(lists.length)}${escapeLineStart(line)}`);
+        }
+        text = '';
+        inBlock = false;
+    };
+
+    let match: RegExpExecArray | null;
+    TOKEN_PATTERN.lastIndex = 0;
+    while ((match = TOKEN_PATTERN.exec(html)) !== null) {
+        const [, closing, rawName, attributes, textToken] = match;
+
+        if (textToken !== undefined) {
+            // Whitespace between blocks only formats the HTML itself
+            if (!inBlock && !textToken.trim()) continue;
+            inBlock = true;
+            text += escapeText(decodeEntities(textToken));
+            continue;
+        }
+
+        const name = rawName.toLowerCase();
+        switch (name) {
+            case 'p':
+                if (closing) {
+                    flush();
+                } else {
+                    if (text) flush();
+                    inBlock = true;
+                }
+                break;
+            case 'ul':
+            case 'ol':
+                flush();
+                if (closing) {
+                    lists.pop();
+                    // The outer item, if any, already has its first line
+                    itemStarted = lists.length > 0;
+                    if (lists.length === 0) {
+                        lines.push('');
+                    }
+                } else {
+                    lists.push({ type: name, indent: lists.length * 4, counter: 0 });
+                }
+                break;
+            case 'li':
+                flush();
+                if (!closing && lists.length > 0) {
+                    lists[lists.length - 1].counter++;
+                    itemStarted = false;
+                    inBlock = true;
+                }
+                break;
+            case 'br':
+                inBlock = true;
+                text += '<br>';
+                break;
+            case 'strong':
+            case 'b':
+                inBlock = true;
+                text += '**';
+                break;
+            case 'em':
+            case 'i':
+                inBlock = true;
+                text += '*';
+                break;
+            case 'mark':
+                inBlock = true;
+                text += '==';
+                break;
+            case 's':
+            case 'del':
+            case 'strike':
+                inBlock = true;
+                text += '~~';
+                break;
+            case 'u':
+                inBlock = true;
+                text += closing ? '</u>' : '<u>';
+                break;
+            case 'a':
+                inBlock = true;
+                if (closing) {
+                    text += `](${formatHref(links.pop() ?? '')})`;
+                } else {
+                    const href = attributes.match(/href\s*=\s*(?:"([^"]*)"|'([^']*)')/i);
+                    links.push(href ? decodeEntities(href[1] ?? href[2]) : '');
+                    text += '[';
+                }
+                break;
+            default:
+                // Other markup is dropped, its text is kept
+                break;
+        }
+    }
+    flush();
+
+    // The empty line that ends a list isn't needed at the end of the memo
+    if (lines[lines.length - 1] === '' && /<\/(ul|ol)>\s*$/i.test(html)) {
+        lines.pop();
+    }
+    return lines.join('\n');
+}
+
+export function markdownToFlomoHtml(markdown: string): string {
+    const lines = markdown.replace(/\r\n/g, '\n').split('\n');
+    const lists: OpenList[] = [];
+    let html = '';
+
+    const closeLists = (depth: number) => {
+        while (lists.length > depth) {
+            html += `</li></${lists.pop()?.type}>`;
+        }
+    };
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+        const item = line.match(LIST_ITEM_PATTERN);
+
+        if (item) {
+            const indent = getIndentWidth(item[1]);
+            const type = /^\d/.test(item[2]) ? 'ol' : 'ul';
+
+            // Leave deeper lists, then continue the list at this depth or start one
+            while (lists.length > 0 && indent < lists[lists.length - 1].indent) {
+                closeLists(lists.length - 1);
+            }
+            const current = lists[lists.length - 1];
+            if (current && indent === current.indent && current.type !== type) {
+                closeLists(lists.length - 1);
+            }
+
+            const open = lists[lists.length - 1];
+            if (open && indent === open.indent) {
+                html += '</li><li>';
+            } else {
+                lists.push({ type, indent, counter: 0 });
+                html += `<${type}><li>`;
+            }
+            html += `<p>${renderInline(item[3])}</p>`;
+            continue;
+        }
+
+        if (lists.length > 0) {
+            if (!line.trim()) {
+                // The empty line that ends a list
+                closeLists(0);
+                continue;
+            }
+
+            // An indented line is another paragraph of the item it's under
+            const width = getIndentWidth(line.match(/^[ \t]*/)?.[0] ?? '');
+            while (lists.length > 1 && width <= lists[lists.length - 1].indent) {
+                closeLists(lists.length - 1);
+            }
+            if (width > lists[lists.length - 1].indent) {
+                // Indentation past the item's text is part of the paragraph
+                html += `<p>${renderInline(stripIndent(line, lists[lists.length - 1].indent + 4).replace(/\s+$/, ''))}</p>`;
+                continue;
+            }
+            closeLists(0);
+        }
+
+        // Empty lines at the end would become empty paragraphs at the end of the memo
+        if (!line.trim() && lines.slice(i).every(rest => !rest.trim())) {
+            break;
+        }
+        // Leading spaces are kept, they're part of the paragraph
+        html += line.trim() ? `<p>${renderInline(line.replace(/\s+$/, ''))}</p>` : '<p></p>';
+    }
+    closeLists(0);
+
+    return html;
+}
+
+/**
+ * Convert the formatting inside a paragraph
+ */
+function renderInline(text: string): string {
+    // Set escaped characters aside as private use characters so they aren't read as formatting
+    const result = text.replace(ESCAPED_PATTERN, (_match, char: string) => String.fromCharCode(0xE000 + ESCAPABLE.indexOf(char)))
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(RAW_TAGS, '<$1>')
+        .replace(LINK_PATTERN, (_match, label: string, href: string) =>
+            `<a href="${href.replace(/\\([()])/g, '$1').replace(/"/g, '&quot;')}">${label}</a>`)
+        .replace(/\*\*(.+?)\*\*/g, '<strong>$1</strong>')
+        .replace(/==(.+?)==/g, '<mark>$1</mark>')
+        .replace(/~~(.+?)~~/g, '<s>$1</s>')
+        .replace(/\*(.+?)\*/g, '<em>$1</em>');
+
+    return result.replace(/[\uE000-\uE008]/g, char => {
+        const original = ESCAPABLE[char.charCodeAt(0) - 0xE000];
+        return original === '<' ? '&lt;' : original;
+    });
+}
+
+/**
+ * Escape memo text that Markdown would read as formatting
+ */
+function escapeText(text: string): string {
+    return text
+        .replace(/[*[\]]/g, '\\$&')
+        .replace(/==/g, '\\==')
+        .replace(/~~/g, '\\~~')
+        // Text that reads like the HTML kept in Markdown, e.g. a literal "<u>"
+        .replace(/<(?=\/?(?:u|br)\s*\/?>)/g, '\\<');
+}
+
+/**
+ * Keep a paragraph that looks like a list item from becoming one
+ */
+function escapeLineStart(line: string): string {
+    return line
+        .replace(/^([ \t]*)([-+])([ \t])/, '$1\\$2$3')
+        .replace(/^([ \t]*\d+)\.([ \t])/, '$1\\.$2');
+}
+
+/**
+ * A link destination as written in Markdown. Parentheses that aren't
+ * balanced would end it early, so they're escaped; whitespace, which a
+ * URL can't hold anyway, is percent-encoded.
+ */
+function formatHref(href: string): string {
+    const encoded = href.replace(/\s/g, encodeURIComponent);
+    return /^(?:[^()]|\([^()]*\))*$/.test(encoded) ? encoded : encoded.replace(/[()]/g, '\\$&');
+}
+
+/**
+ * Take up to the given width of indentation off a line
+ */
+function stripIndent(line: string, width: number): string {
+    let end = 0;
+    while (end < line.length && /[ \t]/.test(line[end]) && getIndentWidth(line.substring(0, end + 1)) <= width) {
+        end++;
+    }
+    return line.substring(end);
+}
+
+function decodeEntities(text: string): string {
+    return text.replace(/&(#x?[0-9a-fA-F]+|[a-zA-Z]+);/g, (entity, code: string) => {
+        if (/^#x/i.test(code)) {
+            return String.fromCharCode(parseInt(code.substring(2), 16));
+        }
+        if (code.startsWith('#')) {
+            return String.fromCharCode(parseInt(code.substring(1), 10));
+        }
+        return ENTITIES[code.toLowerCase()] ?? entity;
+    });
+}
+
+function getIndentWidth(indent: string): number {
+    return indent.replace(/\t/g, '    ').length;
+}
@@ -1,29 +1,58 @@
 import { Notice, TFile } from 'obsidian';
-import { FrontMatter, SyncService, SyncStatus } from './types';
+import { AccountProfile, NotesSyncSettings, SyncOptions, SyncPlan, SyncPlanItem, SyncProvider, SyncQueueItem, SyncRun, SyncRunAction, SyncService, SyncStateEntry, SyncStatus } from './types';
 import NotesSyncPlugin from './main';
 import * as crypto from 'crypto';
 import { LLMHelper } from './LLMHelper';
+import { ConflictResolver } from './ConflictResolver';
+import { computeContentHash, getStoredContentHash } from './ContentHash';
+import { FlomoTagMapper } from './FlomoTagMapper';
+import { flomoHtmlToMarkdown, isFlomoHtml, markdownToFlomoHtml } from './FlomoMarkdown';
+import { formatNote, parseFrontMatter, stripFrontMatter } from './Frontmatter';
+import { NoteTemplate } from './NoteTemplate';
+import { getSyncTrigger, PUSH_ACTIONS } from './SyncHistory';
+import { getAvailablePath, parseTemplateDate, PathTemplateVariables, renderPathTemplate, sanitizeFileName } from './PathTemplate';
+
+// The parts of a memo from the Flomo API that syncing reads
+interface FlomoMemo {
+    memo_id: string;
+    slug?: string;
+    content?: string;
+    tags?: string[];
+    files?: Array<{ id?: string | number; name?: string; url?: string; size?: number }>;
+    created_at?: string;
+    updated_at?: string;
+    deleted_at?: string | null;
+}
 
 export class FlomoSyncService implements SyncService {
     private plugin: NotesSyncPlugin;
+    private profile: AccountProfile;
+    private settings: NotesSyncSettings;    // Settings as seen by this account
     private syncStatus: SyncStatus;
     private isSyncing: boolean;
     private cancelRequested: boolean;
     private salt = "dbbc3dd73364b4084c3a69346e0ce2b2";
-    private frontMatterCache: Map<string, any>; // Cache for parsed frontmatter
-    private fileModifiedTimes: Map<string, number>; // Track file modification times
     private llmHelper: LLMHelper;
+    private conflictResolver: ConflictResolver;
+    private tagMapper: FlomoTagMapper;
+    private noteTemplate: NoteTemplate;
+    private run: SyncRun | null;            // Sync history entry of the sync in progress
 
-    constructor(plugin: NotesSyncPlugin) {
+    constructor(plugin: NotesSyncPlugin, profile: AccountProfile) {
         this.plugin = plugin;
+        this.profile = profile;
+        this.settings = plugin.accounts.getSettings(profile);
         this.isSyncing = false;
         this.cancelRequested = false;
-        this.frontMatterCache = new Map();
-        this.fileModifiedTimes = new Map();
         this.llmHelper = new LLMHelper(plugin);
+        this.conflictResolver = new ConflictResolver(plugin, 'flomo');
+        this.tagMapper = new FlomoTagMapper(this.settings);
+        this.noteTemplate = new NoteTemplate(this.settings, FLOMO_PROVIDER);
+        this.run = null;
+        const cursor = plugin.cursors.get(profile.id);
         this.syncStatus = {
             inProgress: false,
-            lastSync: this.plugin.settings.lastSyncTime || 0,
+            lastSync: Math.max(cursor.lastPull, cursor.lastPush),
             lastSyncId: '',
             pendingChanges: 0,
             errors: [],
@@ -35,15 +64,19 @@ export class FlomoSyncService implements SyncService {
         };
     }
 
-    public async syncFromServer(options?: { isAutoSync?: boolean, isFullSync?: boolean }): Promise<void> {
+    public async syncFromServer(options?: SyncOptions): Promise<SyncPlan | void> {
+        const isAutoSync = options?.isAutoSync || false;
         const isFullSync = options?.isFullSync || false;
+        const dryRun = options?.dryRun || false;
+        // A partial sync leaves the pull cursor alone, so the memos left out are fetched again
+        const only = options?.only ? new Set(options.only) : null;
         
         if (this.isSyncing) {
             new Notice('Sync already in progress');
             return;
         }
 
-        if (!this.plugin.settings.flomoApiToken) {
+        if (!this.settings.flomoApiToken) {
             new Notice('Flomo API token not set. Please configure in settings.');
             return;
         }
@@ -57,15 +90,28 @@ export class FlomoSyncService implements SyncService {
             currentFile: 'Preparing to sync...'
         };
 
+        // Only ask the user about conflicts when they started the sync themselves
+        this.conflictResolver.beginRun(!isAutoSync);
+        this.run = dryRun ? null : this.plugin.syncHistory.start('flomo', this.profile, 'pull', getSyncTrigger(options));
+        if (this.run) {
+            this.plugin.snapshots.start(this.run);
+        }
+        let failure: string | undefined;
+
+        // Memos changed while this pull runs are fetched again by the next one
+        const pullStarted = Date.now();
+
         try {
             // Ensure sync folder exists
-            await this.ensureSyncFolderExists();
+            if (!dryRun) {
+                await this.ensureSyncFolderExists();
+            }
             
             // Fetch memos from server
             this.syncStatus.progress.currentFile = 'Fetching memos from Flomo...';
             new Notice('Starting sync from Flomo...');
             
-            const memos = await this.fetchMemos();
+            let memos = await this.fetchMemos(!isFullSync);
             
             // Check if cancelled
             if (this.cancelRequested) {
@@ -73,26 +119,44 @@ export class FlomoSyncService implements SyncService {
                 return;
             }
 
+            if (dryRun) {
+                return await this.planPull(memos);
+            }
+            if (only) {
+                memos = memos.filter(memo => only.has(String(memo.memo_id)));
+            }
+
             this.syncStatus.progress.total = memos.length;
             new Notice(`Fetched ${memos.length} memos from Flomo.`);
 
             if (memos.length === 0) {
                 new Notice('No new memos to sync from Flomo.');
+                if (!only) {
+                    await this.recordPull(pullStarted, isFullSync);
+                }
                 return;
             }
             
+            // Memos deleted on Flomo are reported with deleted_at set
+            const deletedMemos: FlomoMemo[] = [];
+            
             // Process each memo
             for (let i = 0; i < memos.length && !this.cancelRequested; i++) {
                 const memo = memos[i];
                 
+                if (memo.deleted_at) {
+                    deletedMemos.push(memo);
+                    continue;
+                }
+                
                 // Use LLM for title generation if configured
                 if (this.shouldUseAiForTitleGeneration()) {
                     this.syncStatus.progress.currentFile = 'Generating title with AI...';
                     const generatedTitle = await this.llmHelper.generateTitle(
                         memo.content,
-                        this.plugin.settings.flomoLlmType || this.plugin.settings.llmType,
-                        this.plugin.settings.flomoLlmModel || this.plugin.settings.llmModel,
-                        this.plugin.settings.flomoLlmApiKey || this.plugin.settings.llmApiKey
+                        this.settings.flomoLlmType || this.settings.llmType,
+                        this.settings.flomoLlmModel || this.settings.llmModel,
+                        this.settings.flomoLlmApiKey || this.settings.llmApiKey
                     );
                     if (generatedTitle) {
                         memo.slug = generatedTitle;
@@ -102,17 +166,35 @@ export class FlomoSyncService implements SyncService {
                 this.syncStatus.progress.currentFile = memo.slug || memo.title || 'Untitled';
                 this.syncStatus.progress.completed = i;
                 
-                await this.saveFlomoNoteToLocal(memo);
+                try {
+                    await this.saveFlomoNoteToLocal(memo);
+                } catch (err) {
+                    this.recordNote('error', '', memo.slug || memo.memo_id, err.message);
+                    // Keep the memo so the download can be retried later
+                    await this.plugin.syncQueue.enqueue({
+                        service: 'flomo',
+                        profileId: this.profile.id,
+                        type: 'download',
+                        path: memo.slug || memo.memo_id,
+                        remoteId: memo.memo_id,
+                        payload: memo,
+                        lastError: err.message
+                    });
+                }
+            }
+
+            if (deletedMemos.length > 0 && !this.cancelRequested) {
+                await this.handleDeletedMemos(deletedMemos);
             }
 
-            // Update last sync time
-            this.plugin.settings.lastSyncTime = Date.now();
-            this.syncStatus.lastSync = this.plugin.settings.lastSyncTime;
-            await this.plugin.saveSettings();
+            if (!this.cancelRequested && !only) {
+                await this.recordPull(pullStarted, isFullSync);
+            }
             
             new Notice('Sync from Flomo completed!');
         } catch (err) {
             console.error("Sync error:", err);
+            failure = err.message || String(err);
             this.syncStatus.errors.push({
                 file: '',
                 error: err.message || String(err),
@@ -120,18 +202,29 @@ export class FlomoSyncService implements SyncService {
             });
             new Notice(`Sync error: ${err.message}`);
         } finally {
+            await this.finishRun(failure);
             this.isSyncing = false;
             this.syncStatus.inProgress = false;
         }
     }
 
-    public async syncToServer(): Promise<void> {
+    /**
+     * Remember a completed pull, so the next one only fetches newer changes
+     */
+    private async recordPull(started: number, isFullSync: boolean): Promise<void> {
+        await this.plugin.cursors.update(this.profile.id, isFullSync
+            ? { lastPull: started, lastFullSync: started }
+            : { lastPull: started });
+        this.syncStatus.lastSync = started;
+    }
+
+    public async syncToServer(options?: SyncOptions): Promise<SyncPlan | void> {
         if (this.isSyncing) {
             new Notice('Sync already in progress');
             return;
         }
 
-        if (!this.plugin.settings.flomoApiToken) {
+        if (!this.settings.flomoApiToken) {
             new Notice('Flomo API token not set. Please configure in settings.');
             return;
         }
@@ -145,14 +238,26 @@ export class FlomoSyncService implements SyncService {
             currentFile: 'Preparing to sync to Flomo...'
         };
 
+        const pushStarted = Date.now();
+        this.run = options?.dryRun ? null : this.plugin.syncHistory.start('flomo', this.profile, 'push', getSyncTrigger(options));
+        let failure: string | undefined;
+
         try {
             // Find all markdown files in the specified folder
-            const folderPath = this.plugin.settings.flomoSyncDirectory;
+            const folderPath = this.settings.flomoSyncDirectory;
             const allFiles = this.plugin.app.vault.getMarkdownFiles();
-            const syncFiles = allFiles.filter(file => 
+            let syncFiles = allFiles.filter(file => 
                 file.path.startsWith(folderPath)
             );
 
+            if (options?.dryRun) {
+                return await this.planPush(syncFiles);
+            }
+            if (options?.only) {
+                const only = new Set(options.only);
+                syncFiles = syncFiles.filter(file => only.has(file.path));
+            }
+
             this.syncStatus.progress.total = syncFiles.length;
             
             if (syncFiles.length === 0) {
@@ -160,59 +265,56 @@ export class FlomoSyncService implements SyncService {
                 return;
             }
 
+            // While offline, queue everything and let the queue push it once we're back online
+            if (!navigator.onLine) {
+                for (const file of syncFiles) {
+                    await this.plugin.syncQueue.enqueue({
+                        service: 'flomo',
+                        profileId: this.profile.id,
+                        type: 'upload',
+                        path: file.path,
+                        lastError: 'Offline'
+                    });
+                }
+                new Notice(`Offline: ${syncFiles.length} notes queued for Flomo.`);
+                return;
+            }
+
             new Notice(`Found ${syncFiles.length} notes to sync to Flomo`);
             
             // Process each file
             let successCount = 0;
             let skipCount = 0;
+            let queuedCount = 0;
             
             for (let i = 0; i < syncFiles.length && !this.cancelRequested; i++) {
                 const file = syncFiles[i];
                 this.syncStatus.progress.currentFile = file.name;
                 this.syncStatus.progress.completed = i;
                 
-                // Read the file content
-                const content = await this.plugin.app.vault.read(file);
-                const frontMatter = this.parseFrontMatter(content);
-                const noteContent = this.extractContentWithoutFrontmatter(content);
-                
-                // Skip files that already have been synced to Flomo
-                if (frontMatter && frontMatter.memo_id) {
-                    // This is an existing memo, update it on Flomo
-                    const result = await this.updateMemoOnFlomo(frontMatter.memo_id, noteContent, frontMatter);
-                    if (result.success) {
-                        successCount++;
+                try {
+                    const result = await this.pushFile(file);
+                    if (result === 'skipped') {
+                        skipCount++;
                     } else {
-                        this.syncStatus.errors.push({
-                            file: file.path,
-                            error: result.message || "Failed to update memo on Flomo",
-                            timestamp: Date.now()
-                        });
-                    }
-                } else {
-                    // This is a new note to sync to Flomo
-                    const result = await this.createMemoOnFlomo(noteContent, frontMatter);
-                    if (result.success) {
-                        // Update the local file with the new memo_id
-                        if (result.memo_id) {
-                            const updatedFrontMatter = {
-                                ...(frontMatter || {}),
-                                memo_id: result.memo_id,
-                                last_synced: Date.now(),
-                                sync_status: 'synced'
-                            };
-                            
-                            const updatedContent = this.formatNoteContent(updatedFrontMatter, noteContent);
-                            await this.plugin.app.vault.modify(file, updatedContent);
-                        }
                         successCount++;
-                    } else {
-                        this.syncStatus.errors.push({
-                            file: file.path,
-                            error: result.message || "Failed to create memo on Flomo",
-                            timestamp: Date.now()
-                        });
                     }
+                    this.recordNote(PUSH_ACTIONS[result], file.path, file.basename);
+                } catch (error) {
+                    this.recordNote('error', file.path, file.basename, error.message || "Failed to sync memo to Flomo");
+                    this.syncStatus.errors.push({
+                        file: file.path,
+                        error: error.message || "Failed to sync memo to Flomo",
+                        timestamp: Date.now()
+                    });
+                    await this.plugin.syncQueue.enqueue({
+                        service: 'flomo',
+                        profileId: this.profile.id,
+                        type: 'upload',
+                        path: file.path,
+                        lastError: error.message
+                    });
+                    queuedCount++;
                 }
             }
 
@@ -222,14 +324,16 @@ export class FlomoSyncService implements SyncService {
                 return;
             }
 
-            // Update last sync time
-            this.plugin.settings.lastSyncTime = Date.now();
-            this.syncStatus.lastSync = this.plugin.settings.lastSyncTime;
-            await this.plugin.saveSettings();
+            // Pushes have their own cursor, so they don't hide remote changes from the next pull
+            if (!options?.only) {
+                await this.plugin.cursors.update(this.profile.id, { lastPush: pushStarted });
+                this.syncStatus.lastSync = pushStarted;
+            }
             
-            new Notice(`Sync to Flomo completed! ${successCount} notes synced, ${skipCount} skipped`);
+            new Notice(`Sync to Flomo completed! ${successCount} notes synced, ${skipCount} skipped, ${queuedCount} queued for retry`);
         } catch (err) {
             console.error("Sync to Flomo error:", err);
+            failure = err.message || String(err);
             this.syncStatus.errors.push({
                 file: '',
                 error: err.message || String(err),
@@ -237,11 +341,51 @@ export class FlomoSyncService implements SyncService {
             });
             new Notice(`Sync to Flomo error: ${err.message}`);
         } finally {
+            await this.finishRun(failure);
             this.isSyncing = false;
             this.syncStatus.inProgress = false;
         }
     }
 
+    /**
+     * Record what the sync in progress did to a note in the sync history
+     */
+    private recordNote(action: SyncRunAction, path: string, title: string, detail?: string): void {
+        if (this.run) {
+            this.plugin.syncHistory.record(this.run, action, path, title, detail);
+        }
+    }
+
+    /**
+     * Add the sync that just ended to the sync history
+     * @param failure Why it stopped, if it failed
+     */
+    private async finishRun(failure?: string): Promise<void> {
+        const run = this.run;
+        if (!run) return;
+        this.run = null;
+        await this.plugin.snapshots.finish(run);
+        await this.plugin.syncHistory.finish(run, failure ? 'failed' : this.cancelRequested ? 'cancelled' : 'completed', failure);
+    }
+
+    /**
+     * Keep the content of a file in the snapshot of the sync in progress, before it's changed or deleted
+     */
+    private async snapshot(file: TFile, remoteId?: string): Promise<void> {
+        if (this.run) {
+            await this.plugin.snapshots.capture(this.run, file, remoteId);
+        }
+    }
+
+    /**
+     * Record in the snapshot of the sync in progress that it created a file
+     */
+    private async snapshotCreated(path: string, remoteId?: string): Promise<void> {
+        if (this.run) {
+            await this.plugin.snapshots.captureCreated(this.run, path, remoteId);
+        }
+    }
+
     public cancelSync(): void {
         if (!this.isSyncing) return;
         
@@ -250,12 +394,154 @@ export class FlomoSyncService implements SyncService {
     }
 
     public getSyncStatus(): SyncStatus {
-        return { ...this.syncStatus };
+        return {
+            ...this.syncStatus,
+            pendingChanges: this.plugin.syncQueue.count('flomo', this.profile.id)
+        };
+    }
+
+    /**
+     * Retry a single queued upload, download or delete. Throws if it fails again.
+     */
+    public async processQueueItem(item: SyncQueueItem): Promise<void> {
+        if (item.type === 'download') {
+            await this.saveFlomoNoteToLocal(item.payload);
+            return;
+        }
+
+        if (item.type === 'delete') {
+            if (item.remoteId) {
+                await this.deleteRemoteNote(item.remoteId);
+                await this.plugin.deletionManager.markPropagated('flomo', item.remoteId);
+            }
+            return;
+        }
+
+        // Follow the note if it was renamed since it was queued
+        const file = this.plugin.app.vault.getAbstractFileByPath(item.path)
+            ?? (item.remoteId ? await this.plugin.syncState.findFile('flomo', item.remoteId) : null);
+        if (!(file instanceof TFile)) {
+            // The note was deleted since it was queued, nothing left to upload
+            console.log(`Queued file ${item.path} no longer exists, dropping upload`);
+            return;
+        }
+
+        await this.pushFile(file);
+    }
+
+    /**
+     * Delete a memo on Flomo
+     */
+    public async deleteRemoteNote(memoId: string): Promise<void> {
+        const url = new URL(`https://flomoapp.com/api/v1/memo/${memoId}`);
+        url.search = new URLSearchParams(this.getRequestParams()).toString();
+        
+        const response = await this.fetchWithTimeout(url.toString(), {
+            method: "DELETE",
+            headers: {
+                "Accept": "application/json, text/plain, */*",
+                "Authorization": `Bearer ${this.settings.flomoApiToken}`
+            }
+        }, 10000);
+        
+        if (!response.ok) {
+            throw new Error(`Failed to delete memo: ${response.status} ${response.statusText}`);
+        }
+        
+        const data = await response.json();
+        if (data.code !== 0) {
+            throw new Error(`Flomo API error: ${data.message || JSON.stringify(data)}`);
+        }
+
+        await this.plugin.mergeBaseStore.delete('flomo', memoId);
+    }
+
+    /**
+     * Upload a single local note to Flomo, creating or updating the memo.
+     * Throws if the API rejects the request.
+     */
+    private async pushFile(file: TFile): Promise<'created' | 'updated' | 'skipped'> {
+        // Embeds of downloaded files are told apart with the attachment index
+        await this.plugin.attachments.load();
+        const content = await this.plugin.app.vault.read(file);
+        const frontMatter = this.parseFrontMatter(content);
+        const noteContent = this.extractContentWithoutFrontmatter(content);
+        const tags = this.tagMapper.getFrontMatterTags(frontMatter);
+        const contentHash = this.hashNote(noteContent, tags);
+        
+        // Memos deleted on Flomo stay deleted
+        if (frontMatter?.memo_id && this.plugin.deletionManager.isDeleted('flomo', frontMatter.memo_id)) {
+            console.log(`Skipping ${file.path}: memo ${frontMatter.memo_id} was deleted`);
+            return 'skipped';
+        }
+        
+        // Unchanged since the last sync
+        if (frontMatter?.memo_id && getStoredContentHash(frontMatter) === contentHash) {
+            return 'skipped';
+        }
+        
+        // Tags added in the frontmatter are written into the memo, and the note
+        // is saved the way the next pull will bring it back. Notes pulled by older
+        // versions still hold the memo's HTML.
+        // Embedded attachments are uploaded if needed and sent as the memo's files rather than as text.
+        const markdown = isFlomoHtml(noteContent) ? flomoHtmlToMarkdown(noteContent) : noteContent;
+        await this.plugin.attachments.uploadEmbeds('flomo', markdown, file.path, frontMatter?.memo_id,
+            (attachment, data) => this.uploadFileToFlomo(attachment, data));
+        const { text, embeds, remoteIds } = this.plugin.attachments.splitEmbeds('flomo', markdown, frontMatter?.memo_id);
+        const memoContent = this.tagMapper.toFlomo(text, tags);
+        const syncedBody = this.plugin.attachments.appendEmbeds(
+            this.tagMapper.fromFlomo(memoContent, tags.map(tag => this.tagMapper.toFlomoTag(tag))).body,
+            embeds
+        );
+        const syncedHash = this.hashNote(syncedBody, tags);
+        
+        if (frontMatter && frontMatter.memo_id) {
+            // This is an existing memo, update it on Flomo, keeping files that weren't downloaded
+            const fileIds = [...remoteIds, ...this.plugin.attachments.getSkippedIds('flomo', frontMatter.memo_id)];
+            const result = await this.updateMemoOnFlomo(frontMatter.memo_id, memoContent, frontMatter, fileIds);
+            if (!result.success) {
+                throw new Error(result.message || "Failed to update memo on Flomo");
+            }
+            await this.conflictResolver.recordBase(frontMatter.memo_id, syncedBody);
+            
+            const syncedFrontMatter = {
+                ...frontMatter,
+                last_synced: Date.now(),
+                sync_status: 'synced',
+                content_hash: syncedHash
+            };
+            await this.plugin.app.vault.modify(file, this.formatNoteContent(syncedFrontMatter, syncedBody, content));
+            await this.recordSyncState(frontMatter.memo_id, file.path, syncedHash);
+            return 'updated';
+        }
+
+        // This is a new note to sync to Flomo
+        const result = await this.createMemoOnFlomo(memoContent, frontMatter, remoteIds);
+        if (!result.success) {
+            throw new Error(result.message || "Failed to create memo on Flomo");
+        }
+
+        // Update the local file with the new memo_id
+        if (result.memo_id) {
+            await this.conflictResolver.recordBase(result.memo_id, syncedBody);
+            const updatedFrontMatter = {
+                ...(frontMatter || {}),
+                memo_id: result.memo_id,
+                last_synced: Date.now(),
+                sync_status: 'synced',
+                content_hash: syncedHash
+            };
+            
+            const updatedContent = this.formatNoteContent(updatedFrontMatter, syncedBody, content);
+            await this.plugin.app.vault.modify(file, updatedContent);
+            await this.recordSyncState(result.memo_id, file.path, syncedHash);
+        }
+        return 'created';
     }
 
     public async testConnection(): Promise<{ success: boolean; message: string }> {
         try {
-            const apiToken = this.plugin.settings.flomoApiToken;
+            const apiToken = this.settings.flomoApiToken;
 
             if (!apiToken || apiToken.trim() === '') {
                 return { 
@@ -315,7 +601,7 @@ export class FlomoSyncService implements SyncService {
     }
 
     private async ensureSyncFolderExists(): Promise<void> {
-        const folderPath = this.plugin.settings.flomoSyncDirectory;
+        const folderPath = this.settings.flomoSyncDirectory;
         if (!folderPath) return;
         
         try {
@@ -332,13 +618,13 @@ export class FlomoSyncService implements SyncService {
 
     private _getParams(params: Record<string, any>): Record<string, any> {
         const paramsSorted: Record<string, any> = {
-            limit: this.plugin.settings.flomoFetchLimit,
+            limit: this.settings.flomoFetchLimit,
             tz: "8:0",
             timestamp: Math.floor(Date.now() / 1000).toString(),
             api_key: "flomo_web",
             app_version: "2.0",
-            order: this.plugin.settings.flomoFetchOrder,
-            token: this.plugin.settings.flomoApiToken,
+            order: this.settings.flomoFetchOrder,
+            token: this.settings.flomoApiToken,
         };
         
         if (params.latest_slug && params.latest_updated_at) {
@@ -359,16 +645,19 @@ export class FlomoSyncService implements SyncService {
         return { ...paramsSorted, sign };
     }
 
-    private async fetchMemos(retryCount = 0): Promise<any[]> {
-        const token = this.plugin.settings.flomoApiToken;
+    /**
+     * @param incremental Only fetch memos changed since the last pull
+     */
+    private async fetchMemos(incremental: boolean, retryCount = 0): Promise<any[]> {
+        const token = this.settings.flomoApiToken;
         if (!token || token.trim() === '') {
             throw new Error('No Flomo API token provided. Please set your token in the plugin settings.');
         }
 
         let params: Record<string, any> = {};
         
-        // Check if we have a last sync time to do incremental sync
-        if (this.syncStatus.lastSync > 0) {
+        // Check if a previous pull gives us a point to continue from
+        if (incremental && this.plugin.cursors.get(this.profile.id).lastPull > 0) {
             // Find the latest synced memo to use as reference
             const latestSyncedMemo = await this.findLatestSyncedMemo();
             
@@ -407,7 +696,7 @@ export class FlomoSyncService implements SyncService {
                     const retryDelay = Math.pow(2, retryCount) * 1000; // Exponential backoff
                     console.log(`Retrying in ${retryDelay}ms (attempt ${retryCount + 1})`);
                     await new Promise(resolve => setTimeout(resolve, retryDelay));
-                    return this.fetchMemos(retryCount + 1);
+                    return this.fetchMemos(incremental, retryCount + 1);
                 }
                 
                 // Specific error messages for common issues
@@ -434,7 +723,7 @@ export class FlomoSyncService implements SyncService {
                     const retryDelay = Math.pow(2, retryCount) * 1000;
                     console.log(`Retrying API error in ${retryDelay}ms (attempt ${retryCount + 1})`);
                     await new Promise(resolve => setTimeout(resolve, retryDelay));
-                    return this.fetchMemos(retryCount + 1);
+                    return this.fetchMemos(incremental, retryCount + 1);
                 }
                 
                 throw new Error(errorMessage);
@@ -461,174 +750,308 @@ export class FlomoSyncService implements SyncService {
     }
     
     /**
-     * Get frontmatter for a file, using cache if available
+     * Find the local file of a memo through the sync state index
+     */
+    private async findExistingMemoFile(memoId: string): Promise<TFile | null> {
+        await this.plugin.syncState.ensureSeeded('flomo', this.settings.flomoSyncDirectory, 'memo_id');
+        return this.plugin.syncState.findFile('flomo', memoId);
+    }
+    
+    /**
+     * Find the most recently synced memo to use for incremental sync
      */
-    private async getFrontMatter(file: TFile): Promise<any | null> {
-        const path = file.path;
-        const modTime = file.stat.mtime;
+    private async findLatestSyncedMemo(): Promise<{ slug?: string; updated_at?: string } | null> {
+        await this.plugin.syncState.ensureSeeded('flomo', this.settings.flomoSyncDirectory, 'memo_id');
         
-        // Check if we have a cached version and if the file hasn't been modified
-        if (this.frontMatterCache.has(path) && this.fileModifiedTimes.get(path) === modTime) {
-            return this.frontMatterCache.get(path);
+        let latest: SyncStateEntry | null = null;
+        for (const entry of await this.plugin.syncState.getEntries('flomo', this.settings.flomoSyncDirectory)) {
+            if (entry.lastSynced && (!latest || entry.lastSynced > latest.lastSynced)) {
+                latest = entry;
+            }
         }
         
-        try {
-            const content = await this.plugin.app.vault.read(file);
-            const frontMatter = this.parseFrontMatter(content);
-            
-            // Cache the result
-            this.frontMatterCache.set(path, frontMatter);
-            this.fileModifiedTimes.set(path, modTime);
-            
-            return frontMatter;
-        } catch (err) {
-            console.error(`Error reading frontmatter from ${path}:`, err);
-            return null;
-        }
+        return latest ? { slug: latest.slug, updated_at: latest.remoteUpdatedAt } : null;
     }
-    
+
     /**
-     * Find an existing file that contains this memo_id in its frontmatter
-     * This uses the frontmatter cache to improve performance
+     * Update the sync state index after a memo was synced
      */
-    private async findExistingMemoFile(memoId: string): Promise<TFile | null> {
-        const folderPath = this.plugin.settings.flomoSyncDirectory;
+    private async recordSyncState(memoId: string, path: string, hash: string, memo?: FlomoMemo): Promise<void> {
+        const previous = await this.plugin.syncState.get('flomo', memoId);
+        await this.plugin.syncState.set({
+            service: 'flomo',
+            remoteId: memoId,
+            path,
+            hash,
+            remoteUpdatedAt: memo?.updated_at !== undefined ? String(memo.updated_at) : previous?.remoteUpdatedAt,
+            slug: memo?.slug || previous?.slug,
+            lastSynced: Date.now()
+        });
+    }
+
+    /**
+     * Move local copies of memos that were deleted on Flomo to the trash folder
+     */
+    private async handleDeletedMemos(memos: FlomoMemo[]): Promise<void> {
+        const deletions: Array<{ remoteId: string; file: TFile }> = [];
         
-        // Get all markdown files in the sync directory and subdirectories
-        const allFiles = this.plugin.app.vault.getMarkdownFiles();
-        const syncFiles = allFiles.filter(file => 
-            file.path.startsWith(folderPath)
-        );
+        for (const memo of memos) {
+            const file = await this.findExistingMemoFile(memo.memo_id);
+            if (file) {
+                deletions.push({ remoteId: memo.memo_id, file });
+            }
+        }
         
-        // First check cache for quick lookup
-        for (const file of syncFiles) {
-            const path = file.path;
-            const modTime = file.stat.mtime;
-            
-            // Use cached frontmatter if available and file hasn't changed
-            if (this.frontMatterCache.has(path) && this.fileModifiedTimes.get(path) === modTime) {
-                const frontMatter = this.frontMatterCache.get(path);
-                if (frontMatter && frontMatter.memo_id === memoId) {
-                    console.log(`Found existing memo ${memoId} in cache: ${path}`);
-                    return file;
-                }
+        if (deletions.length > 0) {
+            console.log(`${deletions.length} local notes were deleted on Flomo`);
+            const notes = deletions.map(({ file }) => ({ path: file.path, title: file.basename }));
+            for (const { remoteId, file } of deletions) {
+                await this.snapshot(file, remoteId);
+            }
+            await this.plugin.deletionManager.handleRemoteDeletions('flomo', deletions);
+            // Depending on the delete policy, local copies are moved to the trash or kept
+            for (const { path, title } of notes) {
+                const moved = !this.plugin.app.vault.getAbstractFileByPath(path);
+                this.recordNote(moved ? 'delete' : 'skip', path, title, moved ? 'Deleted on Flomo' : 'Deleted on Flomo, local copy kept');
             }
         }
+    }
+
+    /**
+     * What pulling the fetched memos would do, worked out without writing or downloading anything
+     */
+    private async planPull(memos: FlomoMemo[]): Promise<SyncPlan> {
+        const items: SyncPlanItem[] = [];
+        const planned = new Set<string>();      // Memo IDs, and paths of planned creates
         
-        // If not found in cache, check files directly
-        for (const file of syncFiles) {
-            try {
-                const frontMatter = await this.getFrontMatter(file);
-                
-                if (frontMatter && frontMatter.memo_id === memoId) {
-                    console.log(`Found existing memo ${memoId} in file: ${file.path}`);
-                    return file;
+        for (const memo of memos) {
+            if (this.cancelRequested) break;
+            if (planned.has(String(memo.memo_id))) continue;
+            planned.add(String(memo.memo_id));
+            
+            if (memo.deleted_at) {
+                const file = await this.findExistingMemoFile(memo.memo_id);
+                if (file) {
+                    items.push({ key: String(memo.memo_id), action: 'delete', path: file.path, title: file.basename, reason: 'Deleted on Flomo' });
                 }
-            } catch (err) {
-                console.error(`Error reading file ${file.path}:`, err);
-                // Continue to next file
+                continue;
+            }
+            
+            const item = await this.planMemo(memo, planned);
+            if (item.action === 'create') {
+                planned.add(item.path);
             }
+            items.push(item);
         }
         
-        return null;
+        return { service: 'flomo', profileId: this.profile.id, account: this.profile.name, direction: 'pull', items };
     }
-    
+
     /**
-     * Find the most recently synced memo to use for incremental sync
+     * What saveFlomoNoteToLocal() would do with a memo. Titles aren't generated with AI here.
+     * @param planned Paths that planned creates take
      */
-    private async findLatestSyncedMemo(): Promise<any | null> {
-        const folderPath = this.plugin.settings.flomoSyncDirectory;
+    private async planMemo(memo: FlomoMemo, planned: Set<string>): Promise<SyncPlanItem> {
+        const remoteMarkdown = flomoHtmlToMarkdown((memo.content || '').trim());
+        const { body: remoteText, tags } = this.tagMapper.fromFlomo(remoteMarkdown, memo.tags);
         
-        // Get all markdown files in the sync directory and subdirectories
-        const allFiles = this.plugin.app.vault.getMarkdownFiles();
-        const syncFiles = allFiles.filter(file => 
-            file.path.startsWith(folderPath)
-        );
+        // Files that were downloaded before are embedded as they'd be after the pull
+        const embeds: string[] = [];
+        for (const file of memo.files || []) {
+            const path = file?.url ? await this.plugin.attachments.getDownloadedPath('flomo', String(file.id ?? file.url)) : null;
+            if (path) {
+                embeds.push(this.plugin.attachments.embed(path));
+            }
+        }
+        const remoteBody = this.plugin.attachments.appendEmbeds(remoteText, embeds);
+        
+        const slug = memo.slug || this.getSlugFromContent(remoteBody);
+        const plan = (action: SyncPlanItem['action'], path: string, reason?: string): SyncPlanItem =>
+            ({ key: String(memo.memo_id), action, path, title: slug || memo.memo_id, reason });
         
-        if (syncFiles.length === 0) {
-            return null;
+        if (this.plugin.deletionManager.isDeleted('flomo', memo.memo_id)) {
+            return plan('skip', '', 'Deleted in the vault');
         }
         
-        let latestSyncTime = 0;
-        let latestMemo = null;
+        const existingFile = await this.findExistingMemoFile(memo.memo_id);
+        if (!existingFile) {
+            const fullPath = getAvailablePath(
+                this.getNotePath({ memo_id: memo.memo_id, slug, created_at: memo.created_at, updated_at: memo.updated_at, tags }),
+                memo.memo_id,
+                candidate => planned.has(candidate) || !!this.plugin.app.vault.getAbstractFileByPath(candidate)
+            );
+            return plan('create', fullPath, 'New on Flomo');
+        }
         
-        for (const file of syncFiles) {
-            try {
-                const frontMatter = await this.getFrontMatter(file);
-                
-                if (!frontMatter || !frontMatter.last_synced) continue;
-                
-                const syncTime = parseInt(frontMatter.last_synced);
-                if (syncTime > latestSyncTime) {
-                    latestSyncTime = syncTime;
-                    latestMemo = {
-                        slug: frontMatter.slug,
-                        updated_at: frontMatter.updated_at
-                    };
-                }
-            } catch (err) {
-                console.error(`Error reading file ${file.path}:`, err);
-                // Continue to next file
-            }
+        const existingContent = await this.plugin.app.vault.read(existingFile);
+        const localFrontMatter = this.parseFrontMatter(existingContent);
+        const localBody = this.extractContentWithoutFrontmatter(existingContent);
+        const remoteHash = this.hashNote(remoteBody, tags);
+        if (getStoredContentHash(localFrontMatter) === remoteHash ||
+            this.hashNote(localBody, this.tagMapper.getFrontMatterTags(localFrontMatter)) === remoteHash) {
+            return plan('skip', existingFile.path, 'Unchanged');
         }
         
-        return latestMemo;
+        // Notes pulled by older versions, and their bases, still hold the memo's HTML
+        const toMarkdown = (body: string) => isFlomoHtml(body) ? flomoHtmlToMarkdown(body) : body;
+        switch (await this.conflictResolver.preview(memo.memo_id, toMarkdown(localBody), remoteBody, toMarkdown)) {
+            case 'unchanged':
+                return plan('update', existingFile.path, 'Tags changed on Flomo');
+            case 'remote':
+                return plan('update', existingFile.path, 'Changed on Flomo');
+            case 'local':
+                return plan('update', existingFile.path, 'Tags changed on Flomo; local edits are kept');
+            case 'merged':
+                return plan('update', existingFile.path, 'Local and Flomo edits merge');
+            default:
+                return plan('conflict', existingFile.path, 'Edited in both places');
+        }
     }
 
-    private async saveFlomoNoteToLocal(memo: any): Promise<void> {
-        try {
-            const folderPath = this.plugin.settings.flomoSyncDirectory;
+    /**
+     * What pushing the notes would do, worked out without uploading anything
+     */
+    private async planPush(files: TFile[]): Promise<SyncPlan> {
+        const items: SyncPlanItem[] = [];
+        for (const file of files) {
+            const content = await this.plugin.app.vault.read(file);
+            const frontMatter = this.parseFrontMatter(content);
+            const noteContent = this.extractContentWithoutFrontmatter(content);
+            const contentHash = this.hashNote(noteContent, this.tagMapper.getFrontMatterTags(frontMatter));
+            const plan = (action: SyncPlanItem['action'], reason?: string): SyncPlanItem =>
+                ({ key: file.path, action, path: file.path, title: frontMatter?.slug || file.basename, reason });
             
-            // Create tag-based subfolder if memo has tags
-            let subfolder = "";
-            if (memo.tags && memo.tags.length > 0) {
-                // Use the first tag as subfolder
-                subfolder = memo.tags[0];
+            if (frontMatter?.memo_id && this.plugin.deletionManager.isDeleted('flomo', frontMatter.memo_id)) {
+                items.push(plan('skip', 'Deleted on Flomo'));
+            } else if (!frontMatter?.memo_id) {
+                items.push(plan('create', 'New note'));
+            } else if (getStoredContentHash(frontMatter) === contentHash) {
+                items.push(plan('skip', 'Unchanged'));
+            } else {
+                items.push(plan('update', 'Edited since the last sync'));
             }
+        }
+        return { service: 'flomo', profileId: this.profile.id, account: this.profile.name, direction: 'push', items };
+    }
+
+    /**
+     * Download the files attached to a memo
+     * @returns Embeds of the downloaded files
+     */
+    private async downloadFiles(memo: FlomoMemo): Promise<string[]> {
+        const embeds: string[] = [];
+        for (const file of memo.files || []) {
+            if (!file?.url) continue;
+            const path = await this.plugin.attachments.download({
+                service: 'flomo',
+                remoteId: String(file.id ?? file.url),
+                noteId: memo.memo_id,
+                url: file.url
+            }, file.name, file.size);
+            if (path) {
+                embeds.push(this.plugin.attachments.embed(path));
+            }
+        }
+        return embeds;
+    }
+
+    private async saveFlomoNoteToLocal(memo: any): Promise<void> {
+        // Don't bring back memos that were deleted locally
+        if (this.plugin.deletionManager.isDeleted('flomo', memo.memo_id)) {
+            console.log(`Skipping deleted memo ${memo.memo_id}`);
+            this.recordNote('skip', '', memo.slug || memo.memo_id, 'Deleted in the vault');
+            return;
+        }
+        
+        try {
+            // Tags move between the memo body and the frontmatter as configured
+            const remoteMarkdown = flomoHtmlToMarkdown((memo.content || '').trim());
+            const { body: remoteText, tags } = this.tagMapper.fromFlomo(remoteMarkdown, memo.tags);
             
-            const folder = subfolder ? `${folderPath}/${subfolder}` : folderPath;
-            
-            // Ensure the folder exists
-            await this.plugin.app.vault.adapter.mkdir(folder).catch(() => {});
-            
-            // Generate a sanitized filename from created date and memo slug or first few content words
-            const date = new Date(memo.created_at * 1000);
-            const dateStr = date.toISOString().split('T')[0]; // YYYY-MM-DD
-            const slug = memo.slug || this.getSlugFromContent(memo.content);
-            const fileName = this.sanitizeFileName(`${dateStr}-${slug}`);
+            // Files attached to the memo are embedded below its text
+            const remoteBody = this.plugin.attachments.appendEmbeds(remoteText, await this.downloadFiles(memo));
             
             // Check if the note already exists by memo_id to prevent duplicates
             const existingFile = await this.findExistingMemoFile(memo.memo_id);
             
+            const remoteHash = this.hashNote(remoteBody, tags);
+            
             const frontMatter = {
                 memo_id: memo.memo_id,
                 slug: memo.slug || '',
                 created_at: memo.created_at,
                 updated_at: memo.updated_at,
-                tags: memo.tags || [],
+                tags,
                 last_synced: Date.now(),
-                sync_status: 'synced'
+                sync_status: 'synced',
+                content_hash: remoteHash
             };
             
-            const mdContent = this.formatNoteContent(frontMatter, memo.content);
-            
             if (existingFile) {
-                // Check for conflicts before updating
-                const existingFrontMatter = await this.getFrontMatter(existingFile);
+                const existingContent = await this.plugin.app.vault.read(existingFile);
+                const localFrontMatter = this.parseFrontMatter(existingContent);
+                const localBody = this.extractContentWithoutFrontmatter(existingContent);
+                const localTags = this.tagMapper.getFrontMatterTags(localFrontMatter);
+                
+                // Leave the file alone if the memo hasn't changed since the last sync,
+                // or already matches the local file
+                if (getStoredContentHash(localFrontMatter) === remoteHash ||
+                    this.hashNote(localBody, localTags) === remoteHash) {
+                    console.log(`Memo ${memo.memo_id} unchanged on Flomo, skipping ${existingFile.path}`);
+                    await this.conflictResolver.recordBase(memo.memo_id, remoteBody);
+                    this.recordNote('skip', existingFile.path, existingFile.basename, 'Unchanged');
+                    return;
+                }
+                
+                // Merge remote changes with any local edits made since the last sync
+                const localMarkdown = await this.upgradeHtmlBody(memo.memo_id, localBody);
+                const resolution = await this.conflictResolver.resolve(memo.memo_id, localMarkdown, remoteBody, existingFile.basename);
                 
-                if (this.hasConflict(existingFrontMatter, memo, existingFile)) {
-                    await this.handleConflict(existingFile, memo, mdContent);
-                } else {
-                    // Update existing file
-                    await this.plugin.app.vault.modify(existingFile, mdContent);
-                    console.log(`Updated existing Flomo note: ${existingFile.path}`);
+                if (resolution.localCopy !== undefined) {
+                    const copy = await this.conflictResolver.saveLocalCopy(existingFile, resolution.localCopy);
+                    await this.snapshotCreated(copy.path);
                 }
+                
+                if (resolution.status === 'conflict') {
+                    this.syncStatus.errors.push({
+                        file: existingFile.path,
+                        error: 'Content conflict detected - manual resolution required',
+                        timestamp: Date.now()
+                    });
+                    new Notice(`Conflict detected in note ${existingFile.name}. Please resolve manually.`);
+                }
+                
+                // Keep tags added locally since the last sync alongside the remote ones
+                const mergedTags = resolution.status === 'synced'
+                    ? tags
+                    : Array.from(new Set([...tags, ...localTags]));
+                const mdContent = this.formatNoteContent({ ...frontMatter, tags: mergedTags, sync_status: resolution.status }, resolution.body, existingContent);
+                await this.snapshot(existingFile, memo.memo_id);
+                await this.plugin.app.vault.modify(existingFile, mdContent);
+                await this.recordSyncState(memo.memo_id, existingFile.path, remoteHash, memo);
+                console.log(`Updated existing Flomo note: ${existingFile.path} (${resolution.status})`);
+                this.recordNote(resolution.status === 'conflict' ? 'conflict' : 'update', existingFile.path, existingFile.basename,
+                    resolution.status === 'pending' ? 'Kept local edits, to be pushed' : undefined);
             } else {
-                // Create new file with unique name to avoid collisions
-                const fullPath = `${folder}/${fileName}.md`;
-                await this.plugin.app.vault.create(fullPath, mdContent);
+                // Create new file where the path template puts it, with a unique name to avoid collisions.
+                // Memos without a slug are named after their first few words.
+                const fullPath = getAvailablePath(
+                    this.getNotePath({ ...frontMatter, slug: memo.slug || this.getSlugFromContent(remoteBody) }),
+                    memo.memo_id,
+                    candidate => !!this.plugin.app.vault.getAbstractFileByPath(candidate)
+                );
+                
+                // Ensure the folder exists
+                await this.plugin.app.vault.adapter.mkdir(fullPath.substring(0, fullPath.lastIndexOf('/'))).catch(() => {});
+                
+                await this.plugin.app.vault.create(fullPath, this.formatNoteContent(frontMatter, remoteBody));
+                await this.snapshotCreated(fullPath, memo.memo_id);
+                await this.recordSyncState(memo.memo_id, fullPath, remoteHash, memo);
                 console.log(`Created new Flomo note: ${fullPath}`);
+                this.recordNote('create', fullPath, memo.slug || fullPath.substring(fullPath.lastIndexOf('/') + 1, fullPath.length - 3));
             }
+            
+            await this.conflictResolver.recordBase(memo.memo_id, remoteBody);
         } catch (err) {
             console.error(`Error saving Flomo note:`, err);
             this.syncStatus.errors.push({
@@ -641,128 +1064,42 @@ export class FlomoSyncService implements SyncService {
     }
     
     /**
-     * Check if local changes conflict with remote changes
+     * Hash of a note's body and tags, the parts that are sent to Flomo
      */
-    private hasConflict(localFrontMatter: any, remoteMemo: any, file: TFile): boolean {
-        if (!localFrontMatter || !localFrontMatter.last_synced) return false;
-        
-        // Check if the local note was modified after the last sync
-        const lastSyncTime = parseInt(localFrontMatter.last_synced);
-        const localModTime = file.stat.mtime;
-        const remoteModTime = remoteMemo.updated_at * 1000; // Convert from Unix timestamp
-        
-        // If local file was modified after the last sync and remote was also modified
-        return localModTime > lastSyncTime && remoteModTime !== parseInt(localFrontMatter.updated_at) * 1000;
+    private hashNote(body: string, tags: string[]): string {
+        return computeContentHash(body, { tags }, ['tags']);
     }
     
     /**
-     * Handle conflicts between local and remote changes
+     * Convert a note pulled by an older version, which holds the memo's HTML,
+     * to Markdown. Its merge base is converted too, so the upgrade itself
+     * isn't mistaken for a local edit.
      */
-    private async handleConflict(file: TFile, remoteMemo: any, remoteContent: string): Promise<void> {
-        const conflictResolution = this.plugin.settings.conflictResolution;
-        
-        if (conflictResolution === 'remote') {
-            // Use remote version
-            await this.plugin.app.vault.modify(file, remoteContent);
-            console.log(`Conflict resolved using remote version: ${file.path}`);
-        } else if (conflictResolution === 'local') {
-            // Keep local version, just update frontmatter
-            const content = await this.plugin.app.vault.read(file);
-            const localContent = this.extractContentWithoutFrontmatter(content);
-            
-            const frontMatter = {
-                memo_id: remoteMemo.memo_id,
-                slug: remoteMemo.slug || '',
-                created_at: remoteMemo.created_at,
-                updated_at: remoteMemo.updated_at,
-                tags: remoteMemo.tags || [],
-                last_synced: Date.now(),
-                sync_status: 'synced',
-                conflict_resolved: 'local_preferred'
-            };
-            
-            const updatedContent = this.formatNoteContent(frontMatter, localContent);
-            await this.plugin.app.vault.modify(file, updatedContent);
-            console.log(`Conflict resolved keeping local content: ${file.path}`);
-        } else {
-            // Mark conflict for manual resolution
-            const localContent = await this.plugin.app.vault.read(file);
-            
-            // Create conflict markers
-            const conflictContent = `---
-memo_id: ${remoteMemo.memo_id}
-created_at: ${remoteMemo.created_at}
-updated_at: ${remoteMemo.updated_at}
-tags: ${JSON.stringify(remoteMemo.tags || [])}
-last_synced: ${Date.now()}
-sync_status: 'conflict'
----
-
-<<<<<<< LOCAL VERSION
-${this.extractContentWithoutFrontmatter(localContent)}
-=======
-${remoteMemo.content}
->>>>>>> REMOTE VERSION
-
-// Please resolve this conflict manually and remove the conflict markers
-`;
-            await this.plugin.app.vault.modify(file, conflictContent);
-            console.log(`Conflict marked for manual resolution: ${file.path}`);
-            
-            // Add to sync status errors to notify user
-            this.syncStatus.errors.push({
-                file: file.path,
-                error: 'Content conflict detected - manual resolution required',
-                timestamp: Date.now()
-            });
-            
-            new Notice(`Conflict detected in note ${file.name}. Please resolve manually.`);
+    private async upgradeHtmlBody(memoId: string, body: string): Promise<string> {
+        if (!isFlomoHtml(body)) {
+            return body;
         }
+        
+        const base = await this.plugin.mergeBaseStore.get('flomo', memoId);
+        if (base !== undefined && isFlomoHtml(base)) {
+            await this.conflictResolver.recordBase(memoId, flomoHtmlToMarkdown(base));
+        }
+        return flomoHtmlToMarkdown(body);
     }
     
     /**
      * Extract content without frontmatter from a note
      */
     private extractContentWithoutFrontmatter(content: string): string {
-        const match = content.match(/^---\n[\s\S]*?\n---\n([\s\S]*)$/);
-        return match ? match[1].trim() : content.trim();
+        return this.noteTemplate.extractBody(stripFrontMatter(content));
     }
     
     /**
      * Parse YAML frontmatter from file content
      */
     private parseFrontMatter(content: string): any | null {
-        try {
-            const match = content.match(/^---\n([\s\S]*?)\n---/);
-            if (!match) return null;
-            
-            // Simple YAML parsing for front matter
-            const frontMatter: any = {};
-            const lines = match[1].split("\n");
-            
-            for (const line of lines) {
-                if (!line.trim()) continue;
-                const colonIndex = line.indexOf(':');
-                if (colonIndex === -1) continue;
-                
-                const key = line.substring(0, colonIndex).trim();
-                let value = line.substring(colonIndex + 1).trim();
-                
-                // Handle array values (simplified)
-                if (value.startsWith('[') && value.endsWith(']')) {
-                    // Convert array string to actual array
-                    const arrayItems = value.substring(1, value.length - 1).split(',').map(v => v.trim());
-                    frontMatter[key] = arrayItems;
-                } else {
-                    frontMatter[key] = value;
-                }
-            }
-            
-            return frontMatter;
-        } catch (e) {
-            console.error('Error parsing front matter:', e);
-            return null;
-        }
+        // Keys renamed by the note template are read under their own names
+        return this.noteTemplate.readFrontMatter(parseFrontMatter(content));
     }
     
     /**
@@ -771,40 +1108,55 @@ ${remoteMemo.content}
     private getSlugFromContent(content: string): string {
         // Get first few words of content, max 5 words
         const words = content.trim().split(/\s+/).slice(0, 5).join('-');
-        return this.sanitizeFileName(words).toLowerCase();
+        return sanitizeFileName(words).toLowerCase();
     }
 
-    private sanitizeFileName(name: string): string {
-        // Replace invalid characters with underscores
-        let sanitized = name.replace(/[*."\\/<>:|?]/g, '_');
-        
-        // Remove surrounding underscores (often from markdown formatting)
-        sanitized = sanitized.replace(/^_+|_+$/g, '');
-        
-        // Also remove leading and trailing spaces and dots
-        return sanitized.trim().replace(/^\.+|\.+$/g, '');
+    /**
+     * Where a note belongs under the path template, without extension
+     * @param fields The note's frontmatter
+     */
+    private getNotePath(fields: Record<string, unknown>): string {
+        const template = this.settings.pathTemplates?.['flomo'] || FLOMO_PROVIDER.pathTemplate;
+        const variables = this.getTemplateVariables(fields);
+        const relativePath = renderPathTemplate(template, { ...variables, title: variables.title || variables.id });
+        return `${this.settings.flomoSyncDirectory}/${relativePath}`;
     }
 
-    private formatNoteContent(frontMatter: any, content: string): string {
-        let yaml = '---\n';
-        for (const key in frontMatter) {
-            const value = frontMatter[key];
-            if (Array.isArray(value)) {
-                yaml += `${key}:\n`;
-                value.forEach((val: string) => {
-                    yaml += `  - ${val}\n`;
-                });
-            } else if (typeof value === 'object' && value !== null) {
-                yaml += `${key}:\n`;
-                for (const subKey in value) {
-                    yaml += `  ${subKey}: ${value[subKey]}\n`;
-                }
-            } else {
-                yaml += `${key}: ${JSON.stringify(value)}\n`;
-            }
-        }
-        yaml += '---\n\n';
-        return yaml + content;
+    public getLocalPath(frontMatter: Record<string, unknown>): string | null {
+        const fields = this.noteTemplate.readFrontMatter(frontMatter);
+        return fields?.memo_id ? `${this.getNotePath(fields)}.md` : null;
+    }
+
+    /**
+     * Variables of the path and note templates
+     * @param fields The note's frontmatter
+     */
+    private getTemplateVariables(fields: Record<string, unknown>): PathTemplateVariables {
+        const memoId = String(fields.memo_id ?? '');
+        return {
+            service: 'flomo',
+            account: this.profile.name,
+            id: memoId,
+            title: String(fields.slug || ''),
+            tags: this.tagMapper.getFrontMatterTags(fields),
+            source: 'flomo',
+            entry_type: 'memo',
+            created: parseTemplateDate(fields.created_at),
+            updated: parseTemplateDate(fields.updated_at),
+            url: memoId ? `https://v.flomoapp.com/mine/?memo_id=${memoId}` : ''
+        };
+    }
+
+    /**
+     * Write a note through the note template
+     * @param existingNote The note being rewritten, whose own keys and protected region are kept
+     */
+    private formatNoteContent(frontMatter: any, content: string, existingNote?: string): string {
+        return formatNote(
+            this.noteTemplate.renderFrontMatter(frontMatter),
+            this.noteTemplate.renderBody(content, this.getTemplateVariables(frontMatter), existingNote),
+            existingNote !== undefined ? parseFrontMatter(existingNote) : null
+        );
     }
 
     private getRequestParams(): Record<string, any> {
@@ -813,7 +1165,7 @@ ${remoteMemo.content}
             app_version: "2.0",
             tz: "8:0",
             timestamp: Math.floor(Date.now() / 1000).toString(),
-            token: this.plugin.settings.flomoApiToken,
+            token: this.settings.flomoApiToken,
         };
         
         const paramStr = Object.keys(params)
@@ -829,6 +1181,16 @@ ${remoteMemo.content}
         return { ...params, sign };
     }
 
+    /**
+     * A request parameter as it's signed; each item of a list is signed on its own
+     */
+    private getSignParam(key: string, value: unknown): string {
+        if (Array.isArray(value) && value.length > 0) {
+            return value.map(item => `${key}[]=${item}`).join("&");
+        }
+        return `${key}=${value}`;
+    }
+
     private async fetchWithTimeout(url: string, options: RequestInit, timeout: number = 5000): Promise<Response> {
         const controller = new AbortController();
         const id = setTimeout(() => controller.abort(), timeout);
@@ -843,15 +1205,15 @@ ${remoteMemo.content}
     /**
      * Create a new memo on Flomo
      */
-    private async createMemoOnFlomo(content: string, frontMatter?: any): Promise<{ success: boolean; message?: string; memo_id?: string }> {
+    private async createMemoOnFlomo(content: string, frontMatter?: any, fileIds: string[] = []): Promise<{ success: boolean; message?: string; memo_id?: string }> {
         try {
             // Create request body
             const now = Math.floor(Date.now() / 1000);
             const requestBody: Record<string, any> = {
-                content: this.formatContentForFlomo(content),
+                content: markdownToFlomoHtml(content),
                 created_at: now,
                 source: "obsidian",
-                file_ids: [],
+                file_ids: fileIds,
                 tz: "8:0",
                 timestamp: now,
                 api_key: "flomo_web",
@@ -864,7 +1226,7 @@ ${remoteMemo.content}
             const signParams = { ...requestBody };
             const paramStr = Object.keys(signParams)
                 .sort()
-                .map((key) => `${key}=${signParams[key]}`)
+                .map((key) => this.getSignParam(key, signParams[key]))
                 .join("&");
                 
             const sign = crypto
@@ -880,7 +1242,7 @@ ${remoteMemo.content}
                 headers: {
                     "Accept": "application/json, text/plain, */*",
                     "Content-Type": "application/json;charset=utf-8",
-                    "Authorization": `Bearer ${this.plugin.settings.flomoApiToken}`
+                    "Authorization": `Bearer ${this.settings.flomoApiToken}`
                 },
                 body: JSON.stringify(requestBody)
             }, 10000);
@@ -917,19 +1279,48 @@ ${remoteMemo.content}
         }
     }
 
+    /**
+     * Upload a file to attach to a memo
+     */
+    private async uploadFileToFlomo(file: TFile, content: ArrayBuffer): Promise<{ remoteId: string; url: string }> {
+        const params = this.getRequestParams();
+        const form = new FormData();
+        Object.keys(params).forEach(key => form.append(key, String(params[key])));
+        form.append("file", new Blob([content]), file.name);
+        
+        const response = await this.fetchWithTimeout("https://flomoapp.com/api/v1/file/upload", {
+            method: "POST",
+            headers: {
+                "Accept": "application/json, text/plain, */*",
+                "Authorization": `Bearer ${this.settings.flomoApiToken}`
+            },
+            body: form
+        }, 30000);
+        
+        if (!response.ok) {
+            throw new Error(`Failed to upload ${file.name}: ${response.status} ${response.statusText}`);
+        }
+        
+        const data = await response.json();
+        if (data.code !== 0 || !data.data?.id) {
+            throw new Error(`Failed to upload ${file.name}: ${data.message || JSON.stringify(data)}`);
+        }
+        return { remoteId: String(data.data.id), url: data.data.url || "" };
+    }
+
     /**
      * Update an existing memo on Flomo
      */
-    private async updateMemoOnFlomo(memoId: string, content: string, frontMatter?: any): Promise<{ success: boolean; message?: string }> {
+    private async updateMemoOnFlomo(memoId: string, content: string, frontMatter?: any, fileIds: string[] = []): Promise<{ success: boolean; message?: string }> {
         try {
             // Create request body similar to create but with memo_id
             const now = Math.floor(Date.now() / 1000);
             const requestBody: Record<string, any> = {
                 memo_id: memoId,
-                content: this.formatContentForFlomo(content),
+                content: markdownToFlomoHtml(content),
                 updated_at: now,
                 source: "obsidian",
-                file_ids: [],
+                file_ids: fileIds,
                 tz: "8:0",
                 timestamp: now,
                 api_key: "flomo_web",
@@ -942,7 +1333,7 @@ ${remoteMemo.content}
             const signParams = { ...requestBody };
             const paramStr = Object.keys(signParams)
                 .sort()
-                .map((key) => `${key}=${signParams[key]}`)
+                .map((key) => this.getSignParam(key, signParams[key]))
                 .join("&");
                 
             const sign = crypto
@@ -958,7 +1349,7 @@ ${remoteMemo.content}
                 headers: {
                     "Accept": "application/json, text/plain, */*",
                     "Content-Type": "application/json;charset=utf-8",
-                    "Authorization": `Bearer ${this.plugin.settings.flomoApiToken}`
+                    "Authorization": `Bearer ${this.settings.flomoApiToken}`
                 },
                 body: JSON.stringify(requestBody)
             }, 10000);
@@ -991,30 +1382,87 @@ ${remoteMemo.content}
         }
     }
 
-    /**
-     * Format content for Flomo API (wrap in p tags if needed)
-     */
-    private formatContentForFlomo(content: string): string {
-        // If content doesn't start with HTML tag, wrap it in <p> tags
-        const trimmedContent = content.trim();
-        if (!trimmedContent.startsWith('<')) {
-            return `<p>${trimmedContent}</p>`;
-        }
-        return trimmedContent;
-    }
-
     // Add a helper method to determine if AI title generation should be used
     private shouldUseAiForTitleGeneration(): boolean {
         // Check if global setting is enabled
-        if (this.plugin.settings.useLlmForTitles && this.plugin.settings.llmType && this.plugin.settings.llmApiKey) {
+        if (this.settings.useLlmForTitles && this.settings.llmType && this.settings.llmApiKey) {
             return true;
         }
         
         // Fall back to service-specific settings
-        if (this.plugin.settings.flomoLlmType && this.plugin.settings.flomoLlmApiKey) {
+        if (this.settings.flomoLlmType && this.settings.flomoLlmApiKey) {
             return true;
         }
         
         return false;
     }
-} 
\ No newline at end of file
+} 
+
+export const FLOMO_PROVIDER: SyncProvider = {
+    id: 'flomo',
+    displayName: 'Flomo',
+    idKey: 'memo_id',
+    folderSetting: 'flomoSyncDirectory',
+    pathTemplate: '{{tag}}/{{created:YYYY-MM-DD}}-{{title}}',
+    optionalKeys: ['slug', 'created_at', 'updated_at'],
+    capabilities: {
+        push: true,
+        delete: true,
+        attachments: true,
+        incremental: true
+    },
+    settings: [
+        {
+            key: 'flomoApiToken',
+            name: 'Flomo API Token',
+            desc: 'Your authentication token for the Flomo API',
+            type: 'text',
+            placeholder: 'Enter your Flomo token',
+            account: true
+        },
+        {
+            key: 'flomoSyncDirectory',
+            name: 'Flomo Sync Directory',
+            desc: 'The folder where Flomo synced notes will be stored',
+            type: 'text',
+            placeholder: 'flomo-notes',
+            account: true
+        },
+        {
+            key: 'flomoFetchLimit',
+            name: 'Flomo Fetch Limit',
+            desc: 'Maximum number of memos to fetch per sync',
+            type: 'number',
+            placeholder: '200',
+            min: 1
+        },
+        {
+            key: 'flomoFetchOrder',
+            name: 'Flomo Fetch Order',
+            desc: 'Order in which to fetch Flomo memos',
+            type: 'dropdown',
+            options: {
+                latest: 'Latest First',
+                oldest: 'Oldest First'
+            }
+        },
+        {
+            key: 'flomoTagStyle',
+            name: 'Tag Placement',
+            desc: 'Keep Flomo tags inline in the note body, or move them to the frontmatter tags. Frontmatter tags missing from the body are added to the memo on push either way.',
+            type: 'dropdown',
+            options: {
+                inline: 'Inline in the body',
+                frontmatter: 'Frontmatter only'
+            }
+        },
+        {
+            key: 'flomoTagRules',
+            name: 'Tag Mapping',
+            desc: 'One rule per line, e.g. "读书 => reading". A rule also renames nested tags (读书/小说 becomes reading/小说), renames tags kept inline in the note body too, and is applied in reverse on push.',
+            type: 'textarea',
+            placeholder: 'flomo/tag => obsidian/tag'
+        }
+    ],
+    create: (plugin, profile) => new FlomoSyncService(plugin, profile)
+};
@@ -0,0 +1,54 @@
+import { describe, it } from 'node:test';
+import { strict as assert } from 'node:assert';
+import { FlomoTagMapper } from './FlomoTagMapper';
+import { NotesSyncSettings } from './types';
+
+function createMapper(flomoTagStyle: NotesSyncSettings['flomoTagStyle'], flomoTagRules: string): FlomoTagMapper {
+    return new FlomoTagMapper({ flomoTagStyle, flomoTagRules } as NotesSyncSettings);
+}
+
+describe('FlomoTagMapper', () => {
+    describe('inline tags', () => {
+        const mapper = createMapper('inline', '读书 => reading\n#work => projects/work');
+
+        it('renames tags in the body like the frontmatter tags', () => {
+            const { body, tags } = mapper.fromFlomo('#读书 #读书/小说 notes on #work and #misc', ['读书', '读书/小说', 'work', 'misc']);
+
+            assert.equal(body, '#reading #reading/小说 notes on #projects/work and #misc');
+            assert.deepEqual(tags, ['reading', 'reading/小说', 'projects/work', 'misc']);
+        });
+
+        it('gives the tags in the body their Flomo names back', () => {
+            assert.equal(mapper.toFlomo('#reading #reading/小说 notes on #projects/work and #misc', []),
+                '#读书 #读书/小说 notes on #work and #misc');
+        });
+
+        it('round-trips a memo', () => {
+            const memo = '#读书 first line\nsecond line with #work';
+            const { body, tags } = mapper.fromFlomo(memo);
+
+            assert.equal(mapper.toFlomo(body, tags), memo);
+        });
+
+        it('adds frontmatter tags missing from the body on a line at the top', () => {
+            assert.equal(mapper.toFlomo('#reading text', ['reading', 'projects/work']), '#work\n#读书 text');
+        });
+
+        it('leaves anchors in links alone', () => {
+            const { body } = mapper.fromFlomo('see https://example.com/#读书');
+            assert.equal(body, 'see https://example.com/#读书');
+        });
+    });
+
+    describe('frontmatter tags', () => {
+        const mapper = createMapper('frontmatter', '读书 => reading');
+
+        it('takes the tags out of the body', () => {
+            assert.deepEqual(mapper.fromFlomo('#读书\ntext #misc', ['读书', 'misc']), { body: 'text', tags: ['reading', 'misc'] });
+        });
+
+        it('writes the tags back on a line at the top', () => {
+            assert.equal(mapper.toFlomo('text', ['reading', 'misc']), '#读书 #misc\ntext');
+        });
+    });
+});
@@ -0,0 +1,140 @@
+import { NotesSyncSettings } from './types';
+
+interface TagRule {
+    flomo: string;
+    obsidian: string;
+}
+
+// A #tag at the start of the content, after whitespace or right after an HTML tag
+const INLINE_TAG_PATTERN = /(^|[\s>])#([^\s#<>]+)/;
+
+/**
+ * Converts tags between Flomo and Obsidian. Flomo keeps tags inline in the memo
+ * (`#reading/books`), Obsidian notes list them in the `tags` frontmatter and
+ * may keep them inline as well. Rules rename a tag and everything nested
+ * under it, in both directions.
+ */
+export class FlomoTagMapper {
+    private settings: NotesSyncSettings;
+
+    constructor(settings: NotesSyncSettings) {
+        this.settings = settings;
+    }
+
+    /**
+     * Turn a memo into the local note body and its Obsidian tags. Tags kept
+     * inline are renamed the same way as the frontmatter tags.
+     * @param flomoTags Tags reported by Flomo, read from the content if missing
+     */
+    public fromFlomo(content: string, flomoTags?: string[]): { body: string; tags: string[] } {
+        const sourceTags = flomoTags && flomoTags.length > 0 ? flomoTags : this.extractTags(content);
+        const tags = this.unique(sourceTags.map(tag => this.toObsidianTag(tag)));
+
+        const body = this.settings.flomoTagStyle === 'frontmatter'
+            ? this.removeTags(content, sourceTags)
+            : this.renameTags(content, tag => this.toObsidianTag(tag));
+
+        return { body, tags };
+    }
+
+    /**
+     * Turn a local note into memo content, still in Markdown. Inline tags get
+     * their Flomo names back. Tags listed in the frontmatter but missing from
+     * the body are added on a line at the top, which is where Flomo shows them.
+     */
+    public toFlomo(body: string, tags: string[]): string {
+        const content = this.renameTags(body, tag => this.toFlomoTag(tag));
+        const present = new Set(this.extractTags(content));
+        const missing = this.unique(tags.map(tag => this.toFlomoTag(tag))).filter(tag => !present.has(tag));
+        if (missing.length === 0) {
+            return content;
+        }
+
+        const tagLine = missing.map(tag => `#${tag}`).join(' ');
+        const trimmed = content.trim();
+        return trimmed ? `${tagLine}\n${trimmed}` : tagLine;
+    }
+
+    /**
+     * Read the tags of a note from its frontmatter, which may hold a list or a
+     * comma separated string
+     */
+    public getFrontMatterTags(frontMatter: Record<string, unknown> | null | undefined): string[] {
+        const value = frontMatter?.tags;
+        const tags = Array.isArray(value)
+            ? value.map(tag => String(tag))
+            : typeof value === 'string' ? value.split(/[,\s]+/) : [];
+        return this.unique(tags.map(tag => tag.trim().replace(/^#/, '')).filter(tag => tag));
+    }
+
+    public extractTags(content: string): string[] {
+        const tags: string[] = [];
+        const pattern = new RegExp(INLINE_TAG_PATTERN.source, 'g');
+        let match: RegExpExecArray | null;
+        while ((match = pattern.exec(content)) !== null) {
+            tags.push(match[2]);
+        }
+        return this.unique(tags);
+    }
+
+    public toObsidianTag(tag: string): string {
+        return this.applyRules(tag, 'flomo', 'obsidian').replace(/\s+/g, '-');
+    }
+
+    public toFlomoTag(tag: string): string {
+        return this.applyRules(tag, 'obsidian', 'flomo');
+    }
+
+    /**
+     * Rename a tag with the longest rule that matches it or one of its parents
+     */
+    private applyRules(tag: string, from: keyof TagRule, to: keyof TagRule): string {
+        let best: TagRule | null = null;
+        for (const rule of this.getRules()) {
+            const prefix = rule[from];
+            if ((tag === prefix || tag.startsWith(prefix + '/')) && (!best || prefix.length > best[from].length)) {
+                best = rule;
+            }
+        }
+        return best ? best[to] + tag.substring(best[from].length) : tag;
+    }
+
+    private getRules(): TagRule[] {
+        const rules: TagRule[] = [];
+        for (const line of (this.settings.flomoTagRules || '').split('\n')) {
+            const [flomo, obsidian] = line.split('=>').map(part => part?.trim().replace(/^#/, ''));
+            if (flomo && obsidian) {
+                rules.push({ flomo, obsidian });
+            }
+        }
+        return rules;
+    }
+
+    private renameTags(content: string, rename: (tag: string) => string): string {
+        const pattern = new RegExp(INLINE_TAG_PATTERN.source, 'g');
+        return content.replace(pattern, (_match, before: string, tag: string) => `${before}#${rename(tag)}`);
+    }
+
+    /**
+     * Take the given inline tags out of the content, dropping lines and
+     * paragraphs that held nothing else
+     */
+    private removeTags(content: string, tags: string[]): string {
+        let body = content;
+        for (const tag of tags) {
+            const escaped = tag.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+            body = body.replace(new RegExp(`(^|[\\s>])#${escaped}(?:[ \\t]+|(?=$|[\\s<]))`, 'g'), '$1');
+        }
+
+        return body
+            .replace(/[ \t]+<\/p>/g, '</p>')
+            .replace(/<p>\s*<\/p>/g, '')
+            .replace(/[ \t]+$/gm, '')
+            .replace(/\n{3,}/g, '\n\n')
+            .trim();
+    }
+
+    private unique(tags: string[]): string[] {
+        return Array.from(new Set(tags));
+    }
+}
@@ -0,0 +1,120 @@
+import { describe, it } from 'node:test';
+import { strict as assert } from 'node:assert';
+import { formatNote, mergeFrontMatter, parseFrontMatter, stringifyFrontMatter, stripFrontMatter } from './Frontmatter';
+
+describe('Frontmatter', () => {
+    describe('parseFrontMatter', () => {
+        it('reads values with the core schema', () => {
+            const note = '---\ncount: 3\nratio: 1.5\ndone: true\nempty: null\nanswer: yes\ntags:\n  - one\n  - two\n---\nbody';
+            assert.deepEqual(parseFrontMatter(note), {
+                count: 3,
+                ratio: 1.5,
+                done: true,
+                empty: null,
+                answer: 'yes',
+                tags: ['one', 'two']
+            });
+        });
+
+        it('keeps dates as the strings they were written as', () => {
+            const fields = parseFrontMatter('---\ncreated: 2024-01-02\nupdated: 2024-01-02T03:04:05.000Z\n---\n');
+            assert.deepEqual(fields, { created: '2024-01-02', updated: '2024-01-02T03:04:05.000Z' });
+        });
+
+        it('reads notes with Windows line endings', () => {
+            assert.deepEqual(parseFrontMatter('---\r\ntitle: note\r\n---\r\nbody'), { title: 'note' });
+        });
+
+        it('gives an empty object for empty frontmatter', () => {
+            assert.deepEqual(parseFrontMatter('---\n\n---\nbody'), {});
+            assert.deepEqual(parseFrontMatter('---\n---\nbody'), {});
+            assert.deepEqual(parseFrontMatter('---\r\n---\r\nbody'), {});
+        });
+
+        it('gives null without a YAML mapping', () => {
+            assert.equal(parseFrontMatter('no frontmatter'), null);
+            assert.equal(parseFrontMatter('---\n- a list\n---\n'), null);
+            assert.equal(parseFrontMatter('---\nkey: [unclosed\n---\n'), null);
+        });
+    });
+
+    describe('stringifyFrontMatter', () => {
+        it('round-trips values that need quoting', () => {
+            const fields = {
+                title: 'Title: with a colon # and a hash',
+                quoted: '"double" and \'single\'',
+                number: '123',
+                bool: 'true',
+                created: '2024-01-02',
+                leading: '- not a list',
+                empty: ''
+            };
+            const text = stringifyFrontMatter(fields);
+            assert.deepEqual(parseFrontMatter(text), fields);
+        });
+
+        it('round-trips multiline strings', () => {
+            const fields = {
+                title: 'first line\nsecond line',
+                trailing: 'ends in a newline\n',
+                indented: '  starts indented\n    and more'
+            };
+            assert.deepEqual(parseFrontMatter(stringifyFrontMatter(fields)), fields);
+        });
+
+        it('round-trips lists and nested mappings', () => {
+            const fields = { tags: ['a', 'b c'], nested: { key: 'value', count: 2 }, none: null };
+            assert.deepEqual(parseFrontMatter(stringifyFrontMatter(fields)), fields);
+        });
+
+        it('leaves out undefined values', () => {
+            assert.equal(stringifyFrontMatter({ kept: 'yes', dropped: undefined }), '---\nkept: \'yes\'\n---\n');
+        });
+
+        it('writes an empty block without values', () => {
+            assert.equal(stringifyFrontMatter({}), '---\n---\n');
+            assert.deepEqual(parseFrontMatter(stringifyFrontMatter({})), {});
+        });
+    });
+
+    describe('mergeFrontMatter', () => {
+        it('keeps the order of existing keys and adds new keys after them', () => {
+            const merged = mergeFrontMatter({ title: 'old', aliases: ['alias'], remote_id: '1' }, { remote_id: '2', title: 'new', updated: 'now' });
+            assert.deepEqual(Object.keys(merged), ['title', 'aliases', 'remote_id', 'updated']);
+            assert.deepEqual(merged, { title: 'new', aliases: ['alias'], remote_id: '2', updated: 'now' });
+        });
+
+        it('takes the new values as they are without existing frontmatter', () => {
+            const fields = { title: 'new' };
+            assert.equal(mergeFrontMatter(null, fields), fields);
+        });
+    });
+
+    describe('formatNote', () => {
+        it('keeps keys the plugin doesn\'t write', () => {
+            const existing = parseFrontMatter('---\ntitle: old\ncssclasses:\n  - wide\nrating: 5\n---\nold body');
+            const note = formatNote({ title: 'new' }, 'new body\n', existing);
+
+            assert.deepEqual(parseFrontMatter(note), { title: 'new', cssclasses: ['wide'], rating: 5 });
+            // An empty line sets the body apart from the frontmatter
+            assert.equal(stripFrontMatter(note), '\nnew body\n');
+        });
+
+        it('writes a note without fields that reads back', () => {
+            const note = formatNote({}, 'body\n', null);
+
+            assert.deepEqual(parseFrontMatter(note), {});
+            // The --- lines don't end up in the body, to be written again
+            assert.equal(stripFrontMatter(note), '\nbody\n');
+        });
+    });
+
+    describe('stripFrontMatter', () => {
+        it('gives the body of the note', () => {
+            assert.equal(stripFrontMatter('---\ntitle: note\n---\nbody\n---\nmore'), 'body\n---\nmore');
+            assert.equal(stripFrontMatter('---\ntitle: note\n---'), '');
+            assert.equal(stripFrontMatter('---\n---\nbody'), 'body');
+            assert.equal(stripFrontMatter('no frontmatter'), 'no frontmatter');
+        });
+    });
+});
@@ -0,0 +1,88 @@
+/**
+ * Reading and writing the YAML frontmatter of notes, shared by all services.
+ *
+ * Frontmatter is parsed and written with js-yaml, so titles holding colons,
+ * `#`, quotes or newlines survive the round trip. Values are read with the
+ * core schema: dates stay the strings they were written as. When a note is
+ * rewritten, its keys keep their order and keys the plugin doesn't write,
+ * such as aliases added by hand, are kept.
+ */
+
+import * as yaml from 'js-yaml';
+
+// The block may be empty, as written for a note without fields
+const FRONTMATTER_PATTERN = /^---\r?\n(?:([\s\S]*?)\r?\n)?---(?:\r?\n|$)/;
+
+/**
+ * Parse the frontmatter of a note
+ * @returns null if the note has none, or it isn't a YAML mapping
+ */
+export function parseFrontMatter(content: string): Record<string, unknown> | null {
+    const match = content.match(FRONTMATTER_PATTERN);
+    if (!match) return null;
+
+    try {
+        const fields = yaml.load(match[1] ?? '', { schema: yaml.CORE_SCHEMA });
+        if (fields === null || fields === undefined) {
+            return {};
+        }
+        return typeof fields === 'object' && !Array.isArray(fields) ? fields as Record<string, unknown> : null;
+    } catch (e) {
+        console.error('Error parsing front matter:', e);
+        return null;
+    }
+}
+
+/**
+ * The note without its frontmatter
+ */
+export function stripFrontMatter(content: string): string {
+    const match = content.match(FRONTMATTER_PATTERN);
+    return match ? content.substring(match[0].length) : content;
+}
+
+/**
+ * Write a note with frontmatter
+ * @param existing Frontmatter of the note being rewritten, whose key order and other keys are kept
+ */
+export function formatNote(fields: Record<string, unknown>, body: string, existing?: Record<string, unknown> | null): string {
+    return `${stringifyFrontMatter(mergeFrontMatter(existing, fields))}\n${body}`;
+}
+
+/**
+ * Frontmatter as a `---` block, ending in a newline
+ */
+export function stringifyFrontMatter(fields: Record<string, unknown>): string {
+    const defined: Record<string, unknown> = {};
+    for (const key of Object.keys(fields)) {
+        if (fields[key] !== undefined) {
+            defined[key] = fields[key];
+        }
+    }
+    if (Object.keys(defined).length === 0) {
+        return '---\n---\n';
+    }
+
+    const text = yaml.dump(defined, { schema: yaml.CORE_SCHEMA, lineWidth: -1, noRefs: true, skipInvalid: true });
+    return `---\n${text}---\n`;
+}
+
+/**
+ * New values over existing frontmatter: existing keys keep their place, new keys follow
+ */
+export function mergeFrontMatter(existing: Record<string, unknown> | null | undefined, fields: Record<string, unknown>): Record<string, unknown> {
+    if (!existing) {
+        return fields;
+    }
+
+    const result: Record<string, unknown> = {};
+    for (const key of Object.keys(existing)) {
+        result[key] = key in fields ? fields[key] : existing[key];
+    }
+    for (const key of Object.keys(fields)) {
+        if (!(key in result)) {
+            result[key] = fields[key];
+        }
+    }
+    return result;
+}
@@ -0,0 +1,371 @@
+/**
+ * Conversion between LuojiLab's `json_content` and Markdown.
+ *
+ * `json_content` is a rich text document: a tree of nodes such as `paragraph`,
+ * `heading`, `bulletList` and `text`, where text carries marks like `bold` or
+ * `link`. Node types may be written in camelCase or snake_case. Types without
+ * a Markdown equivalent, such as AI summary blocks, keep their content.
+ */
+
+export interface RichTextNode {
+    type: string;
+    attrs?: Record<string, unknown>;
+    content?: RichTextNode[];
+    text?: string;
+    marks?: Array<{ type: string; attrs?: Record<string, unknown> }>;
+}
+
+type Mark = NonNullable<RichTextNode['marks']>[number];
+
+// Inline delimiters, longest first so `**` isn't read as two `*`
+const DELIMITERS: Array<[string, string]> = [['**', 'bold'], ['==', 'highlight'], ['~~', 'strike'], ['*', 'italic']];
+const MARK_SYNTAX: Record<string, string> = { bold: '**', highlight: '==', strike: '~~', italic: '*' };
+
+const LIST_ITEM_PATTERN = /^([ \t]*)([-*+]|\d+\.)[ \t]+(.*)$/;
+const ESCAPABLE = '\\*[]=~`-+.#>';
+
+/**
+ * Render `json_content` as Markdown
+ * @returns null if there is no document or it can't be read, so the plain content is used instead
+ */
+export function jsonContentToMarkdown(jsonContent: string | RichTextNode | null | undefined): string | null {
+    if (!jsonContent) return null;
+
+    let doc: RichTextNode;
+    try {
+        doc = typeof jsonContent === 'string' ? JSON.parse(jsonContent) : jsonContent;
+    } catch (e) {
+        console.warn('Unreadable json_content, using the plain content:', e);
+        return null;
+    }
+    if (!doc || !Array.isArray(doc.content) || doc.content.length === 0) {
+        return null;
+    }
+
+    return renderBlocks(doc.content, '').trim();
+}
+
+/**
+ * Turn Markdown into a `json_content` document
+ */
+export function markdownToJsonContent(markdown: string): string {
+    const lines = markdown.replace(/\r\n/g, '\n').split('\n');
+    const doc: RichTextNode = { type: 'doc', content: parseBlocks(lines) };
+    return JSON.stringify(doc);
+}
+
+function normalizeType(type: string): string {
+    return (type || '').replace(/_/g, '').toLowerCase();
+}
+
+function renderBlocks(nodes: RichTextNode[], indent: string): string {
+    return nodes
+        .map(node => renderBlock(node, indent))
+        .filter(block => block !== null)
+        .join('\n\n');
+}
+
+function renderBlock(node: RichTextNode, indent: string): string | null {
+    const content = node.content ?? [];
+
+    switch (normalizeType(node.type)) {
+        case 'paragraph':
+            return prefixLines(escapeLineStarts(renderInline(content)), indent);
+        case 'heading': {
+            const level = Math.min(Math.max(Number(node.attrs?.level) || 1, 1), 6);
+            return `${indent}${'#'.repeat(level)} ${renderInline(content).replace(/\n/g, ' ')}`;
+        }
+        case 'bulletlist':
+        case 'orderedlist':
+            return renderList(node, indent);
+        case 'blockquote':
+            return prefixLines(renderBlocks(content, ''), `${indent}> `);
+        case 'codeblock': {
+            const language = node.attrs?.language || '';
+            const code = content.map(child => child.text ?? '').join('');
+            return prefixLines(`\`\`\`${language}\n${code}\n\`\`\``, indent);
+        }
+        case 'horizontalrule':
+            return `${indent}---`;
+        case 'image':
+            return node.attrs?.src ? `${indent}![${node.attrs.alt || ''}](${node.attrs.src})` : null;
+        case 'text':
+        case 'hardbreak':
+            return prefixLines(renderInline([node]), indent);
+        default:
+            // Blocks Markdown has no syntax for, such as AI summaries, keep their content
+            return content.length > 0 ? renderBlocks(content, indent) : null;
+    }
+}
+
+function renderList(node: RichTextNode, indent: string): string {
+    const ordered = normalizeType(node.type) === 'orderedlist';
+    let number = Number(node.attrs?.start) || 1;
+    const lines: string[] = [];
+
+    for (const item of node.content ?? []) {
+        const marker = ordered ? `${number++}.` : '-';
+        const [first, ...rest] = item.content ?? [];
+        const firstLine = first && normalizeType(first.type) === 'paragraph'
+            ? renderInline(first.content ?? []).replace(/\n/g, ' ')
+            : '';
+        lines.push(`${indent}${marker} ${firstLine}`);
+
+        const others = first && normalizeType(first.type) === 'paragraph' ? rest : item.content ?? [];
+        for (const child of others) {
+            const block = renderBlock(child, `${indent}\t`);
+            if (block !== null) {
+                lines.push(block);
+            }
+        }
+    }
+    return lines.join('\n');
+}
+
+function renderInline(nodes: RichTextNode[]): string {
+    let result = '';
+    for (const node of nodes) {
+        const type = normalizeType(node.type);
+        if (type === 'hardbreak') {
+            result += '\n';
+        } else if (type === 'text') {
+            result += renderText(node.text ?? '', node.marks ?? []);
+        } else if (type === 'image' && node.attrs?.src) {
+            result += `![${node.attrs.alt || ''}](${node.attrs.src})`;
+        } else if (node.content) {
+            result += renderInline(node.content);
+        }
+    }
+    return result;
+}
+
+function renderText(text: string, marks: Mark[]): string {
+    if (!text) return '';
+
+    const types = marks.map(mark => normalizeType(mark.type));
+    if (types.includes('code')) {
+        return `\`${text}\``;
+    }
+
+    let result = escapeText(text);
+    for (const type of ['italic', 'strike', 'highlight', 'bold']) {
+        if (types.includes(type)) {
+            result = `${MARK_SYNTAX[type]}${result}${MARK_SYNTAX[type]}`;
+        }
+    }
+    const link = marks.find(mark => normalizeType(mark.type) === 'link');
+    if (link?.attrs?.href) {
+        result = `[${result}](${link.attrs.href})`;
+    }
+    return result;
+}
+
+function parseBlocks(lines: string[]): RichTextNode[] {
+    const blocks: RichTextNode[] = [];
+    let i = 0;
+
+    while (i < lines.length) {
+        const line = lines[i];
+
+        if (!line.trim()) {
+            i++;
+            continue;
+        }
+
+        const fence = line.match(/^\s*```(.*)$/);
+        if (fence) {
+            const code: string[] = [];
+            i++;
+            while (i < lines.length && !/^\s*```\s*$/.test(lines[i])) {
+                code.push(lines[i++]);
+            }
+            i++;
+            blocks.push({
+                type: 'codeBlock',
+                attrs: { language: fence[1].trim() || null },
+                content: code.length > 0 ? [{ type: 'text', text: code.join('\n') }] : []
+            });
+            continue;
+        }
+
+        const heading = line.match(/^(#{1,6})\s+(.*)$/);
+        if (heading) {
+            blocks.push({ type: 'heading', attrs: { level: heading[1].length }, content: parseInline(heading[2].trim(), []) });
+            i++;
+            continue;
+        }
+
+        if (/^\s*(-{3,}|\*{3,}|_{3,})\s*$/.test(line)) {
+            blocks.push({ type: 'horizontalRule' });
+            i++;
+            continue;
+        }
+
+        if (/^\s*>/.test(line)) {
+            const quoted: string[] = [];
+            while (i < lines.length && /^\s*>/.test(lines[i])) {
+                quoted.push(lines[i++].replace(/^\s*> ?/, ''));
+            }
+            blocks.push({ type: 'blockquote', content: parseBlocks(quoted) });
+            continue;
+        }
+
+        if (LIST_ITEM_PATTERN.test(line)) {
+            const [list, next] = parseList(lines, i);
+            blocks.push(list);
+            i = next;
+            continue;
+        }
+
+        // Lines up to the next empty line or block make one paragraph
+        const paragraph: string[] = [];
+        while (i < lines.length && lines[i].trim() && (paragraph.length === 0 || !isBlockStart(lines[i]))) {
+            paragraph.push(lines[i++].trim());
+        }
+        blocks.push({ type: 'paragraph', content: parseParagraph(paragraph) });
+    }
+
+    return blocks;
+}
+
+/**
+ * Parse a list and the lists nested in it
+ * @returns The list and the index of the first line after it
+ */
+function parseList(lines: string[], start: number): [RichTextNode, number] {
+    const first = lines[start].match(LIST_ITEM_PATTERN);
+    const indent = getIndentWidth(first?.[1] ?? '');
+    const ordered = /^\d/.test(first?.[2] ?? '');
+    const list: RichTextNode = ordered
+        ? { type: 'orderedList', attrs: { start: parseInt(first?.[2] ?? '1') || 1 }, content: [] }
+        : { type: 'bulletList', content: [] };
+
+    let i = start;
+    while (i < lines.length) {
+        const item = lines[i].match(LIST_ITEM_PATTERN);
+        if (!item || getIndentWidth(item[1]) !== indent || /^\d/.test(item[2]) !== ordered) break;
+
+        const listItem: RichTextNode = { type: 'listItem', content: [{ type: 'paragraph', content: parseInline(item[3], []) }] };
+        list.content?.push(listItem);
+        i++;
+
+        // Deeper lines belong to this item
+        while (i < lines.length && lines[i].trim() && getIndentWidth(lines[i].match(/^[ \t]*/)?.[0] ?? '') > indent) {
+            if (LIST_ITEM_PATTERN.test(lines[i])) {
+                const [nested, next] = parseList(lines, i);
+                listItem.content?.push(nested);
+                i = next;
+            } else {
+                listItem.content?.push({ type: 'paragraph', content: parseInline(lines[i++].trim(), []) });
+            }
+        }
+    }
+
+    return [list, i];
+}
+
+function parseParagraph(lines: string[]): RichTextNode[] {
+    const content: RichTextNode[] = [];
+    lines.forEach((line, index) => {
+        if (index > 0) {
+            content.push({ type: 'hardBreak' });
+        }
+        content.push(...parseInline(line, []));
+    });
+    return content;
+}
+
+function parseInline(text: string, marks: Mark[]): RichTextNode[] {
+    const nodes: RichTextNode[] = [];
+    let buffer = '';
+    const pushText = () => {
+        if (buffer) {
+            nodes.push(marks.length > 0 ? { type: 'text', text: buffer, marks } : { type: 'text', text: buffer });
+        }
+        buffer = '';
+    };
+
+    let i = 0;
+    outer:
+    while (i < text.length) {
+        const rest = text.substring(i);
+
+        if (rest[0] === '\\' && rest.length > 1 && ESCAPABLE.includes(rest[1])) {
+            buffer += rest[1];
+            i += 2;
+            continue;
+        }
+
+        if (rest[0] === '`') {
+            const end = text.indexOf('`', i + 1);
+            if (end > i + 1) {
+                pushText();
+                nodes.push({ type: 'text', text: text.substring(i + 1, end), marks: [...marks, { type: 'code' }] });
+                i = end + 1;
+                continue;
+            }
+        }
+
+        const image = rest.match(/^!\[([^\]]*)\]\(([^)\s]+)\)/);
+        if (image) {
+            pushText();
+            nodes.push({ type: 'image', attrs: { src: image[2], alt: image[1] || null } });
+            i += image[0].length;
+            continue;
+        }
+
+        const link = rest.match(/^\[([^\]]*)\]\(([^)\s]*)\)/);
+        if (link && rest[0] === '[') {
+            pushText();
+            nodes.push(...parseInline(link[1], [...marks, { type: 'link', attrs: { href: link[2] } }]));
+            i += link[0].length;
+            continue;
+        }
+
+        for (const [delimiter, type] of DELIMITERS) {
+            if (!rest.startsWith(delimiter)) continue;
+            const end = text.indexOf(delimiter, i + delimiter.length);
+            if (end > i + delimiter.length) {
+                pushText();
+                nodes.push(...parseInline(text.substring(i + delimiter.length, end), [...marks, { type }]));
+                i = end + delimiter.length;
+                continue outer;
+            }
+        }
+
+        buffer += rest[0];
+        i++;
+    }
+    pushText();
+
+    return nodes;
+}
+
+function isBlockStart(line: string): boolean {
+    return /^(#{1,6}\s|\s*```|\s*>)/.test(line) || LIST_ITEM_PATTERN.test(line) || /^\s*(-{3,}|\*{3,}|_{3,})\s*$/.test(line);
+}
+
+function escapeText(text: string): string {
+    return text
+        .replace(/[\\*[\]`]/g, '\\$&')
+        .replace(/==/g, '\\==')
+        .replace(/~~/g, '\\~~');
+}
+
+/**
+ * Keep paragraph lines that look like a heading, list item or quote from becoming one
+ */
+function escapeLineStarts(text: string): string {
+    return text.split('\n').map(line => line
+        .replace(/^(>|[-+](?=\s)|#{1,6}(?=\s))/, '\\$1')
+        .replace(/^(\d+)\.(\s)/, '$1\\.$2')
+    ).join('\n');
+}
+
+function prefixLines(text: string, prefix: string): string {
+    return text.split('\n').map(line => prefix + line).join('\n');
+}
+
+function getIndentWidth(indent: string): number {
+    return indent.replace(/\t/g, '    ').length;
+}
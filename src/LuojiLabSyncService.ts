@@ -1,26 +1,48 @@
 import { Notice, TFile } from 'obsidian';
-import { FrontMatter, RemoteNote, SyncService, SyncStatus } from './types';
+import { AccountProfile, FrontMatter, NotesSyncSettings, RemoteNote, SyncOptions, SyncPlan, SyncPlanItem, SyncProvider, SyncQueueItem, SyncRun, SyncRunAction, SyncService, SyncStatus } from './types';
 import NotesSyncPlugin from './main';
-import * as yaml from 'js-yaml';
 import { LLMHelper } from './LLMHelper';
-import * as path from 'path';
+import { ConflictResolver } from './ConflictResolver';
+import { computeContentHash, getStoredContentHash } from './ContentHash';
+import { NoteTemplate } from './NoteTemplate';
+import { formatNote, parseFrontMatter, stripFrontMatter } from './Frontmatter';
+import { jsonContentToMarkdown, markdownToJsonContent } from './LuojiLabRichText';
+import { getAvailablePath, parseTemplateDate, PathTemplateVariables, renderPathTemplate } from './PathTemplate';
+import { getSyncTrigger, PUSH_ACTIONS } from './SyncHistory';
+import { getRecording, getVoiceNoteHashText, getVoiceNoteSections, isVoiceNote, parseVoiceNote, renderAudioPlayer, renderVoiceNote, VoiceNoteParts } from './VoiceNote';
 
 export class LuojiLabSyncService implements SyncService {
     private plugin: NotesSyncPlugin;
+    private profile: AccountProfile;
+    private settings: NotesSyncSettings;    // Settings as seen by this account
     private syncStatus: SyncStatus;
     private isSyncing: boolean;
     private cancelRequested: boolean;
     private llmHelper: LLMHelper;
+    private conflictResolver: ConflictResolver;
+    private noteTemplate: NoteTemplate;
+    private fetchedAllNotes: boolean;
+    private run: SyncRun | null;            // Sync history entry of the sync in progress
 
-    constructor(plugin: NotesSyncPlugin) {
+    // Allowed gap between last_synced and the file's mtime after we write it
+    private static readonly SYNC_TIME_TOLERANCE = 2000;
+
+    constructor(plugin: NotesSyncPlugin, profile: AccountProfile) {
         this.plugin = plugin;
+        this.profile = profile;
+        this.settings = plugin.accounts.getSettings(profile);
         this.isSyncing = false;
         this.cancelRequested = false;
         this.llmHelper = new LLMHelper(plugin);
+        this.conflictResolver = new ConflictResolver(plugin, 'luojilab');
+        this.noteTemplate = new NoteTemplate(this.settings, LUOJILAB_PROVIDER);
+        this.fetchedAllNotes = false;
+        this.run = null;
+        const cursor = plugin.cursors.get(profile.id);
         this.syncStatus = {
             inProgress: false,
-            lastSync: this.plugin.settings.lastSyncTime || 0,
-            lastSyncId: this.plugin.settings.lastSyncId || '',
+            lastSync: Math.max(cursor.lastPull, cursor.lastPush),
+            lastSyncId: cursor.pullCursor,
             pendingChanges: 0,
             errors: [],
             progress: {
@@ -31,13 +53,13 @@ export class LuojiLabSyncService implements SyncService {
         };
     }
 
-    public async syncFromServer(options?: { isAutoSync?: boolean, isFullSync?: boolean }): Promise<void> {
+    public async syncFromServer(options?: SyncOptions): Promise<SyncPlan | void> {
         if (this.isSyncing) {
             new Notice('Sync already in progress');
             return;
         }
 
-        if (!this.plugin.settings.bearerToken) {
+        if (!this.settings.bearerToken) {
             new Notice('Bearer token not set. Please configure in settings.');
             return;
         }
@@ -53,22 +75,39 @@ export class LuojiLabSyncService implements SyncService {
 
         const isAutoSync = options?.isAutoSync || false;
         const isFullSync = options?.isFullSync || false;
+        const dryRun = options?.dryRun || false;
+        // A partial sync leaves the pull cursors alone, so the notes left out are fetched again
+        const only = options?.only ? new Set(options.only) : null;
+
+        // Only ask the user about conflicts when they started the sync themselves
+        this.conflictResolver.beginRun(!isAutoSync);
+        this.run = dryRun ? null : this.plugin.syncHistory.start('luojilab', this.profile, 'pull', getSyncTrigger(options));
+        if (this.run) {
+            this.plugin.snapshots.start(this.run);
+        }
+        let failure: string | undefined;
 
         // Initialize or get existing processed notes set to avoid duplicates
         // This set keeps track of note IDs that have been processed in this sync session
         let processedNoteIds = new Set<string>();
+
+        // Notes changed while this pull runs are fetched again by the next one
+        const pullStarted = Date.now();
+        const cursor = this.plugin.cursors.get(this.profile.id);
         
         try {
             // Ensure sync folder exists
-            await this.ensureSyncFolderExists();
+            if (!dryRun) {
+                await this.ensureSyncFolderExists();
+            }
             
             // Fetch notes from server
             this.syncStatus.progress.currentFile = 'Fetching notes from server...';
             new Notice('Starting sync from server...');
             
             let notes: RemoteNote[];
-            const hasLastSyncId = this.plugin.settings.lastSyncId && this.plugin.settings.lastSyncId.trim() !== '';
-            const useIncrementalSync = this.plugin.settings.lastSyncTime > 0;
+            const hasLastSyncId = cursor.pullCursor.trim() !== '';
+            const useIncrementalSync = cursor.lastPull > 0;
             
             if (isFullSync) {
                 // For full sync, don't use any limits or filtering
@@ -77,27 +116,27 @@ export class LuojiLabSyncService implements SyncService {
             } else if (hasLastSyncId) {
                 // ID-based incremental sync - most reliable, fetch notes newer than the last synced ID
                 // For auto sync or incremental sync, don't use limit to ensure we get all new notes
-                const limit = (isAutoSync || useIncrementalSync) ? 0 : this.plugin.settings.noteFetchLimit;
+                const limit = (isAutoSync || useIncrementalSync) ? 0 : this.settings.noteFetchLimit;
                 
                 // Get pagination info for logging purposes
-                const paginatedResult = await this.fetchRemoteNotesWithPagination(limit, undefined, this.plugin.settings.lastSyncId);
+                const paginatedResult = await this.fetchRemoteNotesWithPagination(limit, undefined, cursor.pullCursor);
                 notes = paginatedResult.notes;
-                console.log(`Fetching notes with ID newer than ${this.plugin.settings.lastSyncId} (has_more: ${paginatedResult.hasMore})`);
+                console.log(`Fetching notes with ID newer than ${cursor.pullCursor} (has_more: ${paginatedResult.hasMore})`);
             } else if (useIncrementalSync) {
-                // Time-based incremental sync - fallback if no lastSyncId is available
+                // Time-based incremental sync - fallback if no pull cursor is available
                 // For auto sync or incremental sync, don't use limit to ensure we get all new notes
-                const limit = isAutoSync ? 0 : this.plugin.settings.noteFetchLimit;
+                const limit = isAutoSync ? 0 : this.settings.noteFetchLimit;
                 
                 // Get pagination info for logging purposes
-                const paginatedResult = await this.fetchRemoteNotesWithPagination(limit, this.plugin.settings.lastSyncTime);
+                const paginatedResult = await this.fetchRemoteNotesWithPagination(limit, cursor.lastPull);
                 notes = paginatedResult.notes;
-                console.log(`Fetching notes modified since ${new Date(this.plugin.settings.lastSyncTime).toLocaleString()} (has_more: ${paginatedResult.hasMore})`);
-            } else if (this.plugin.settings.noteFetchLimit > 0) {
+                console.log(`Fetching notes modified since ${new Date(cursor.lastPull).toLocaleString()} (has_more: ${paginatedResult.hasMore})`);
+            } else if (this.settings.noteFetchLimit > 0) {
                 // For initial sync or when limit is set
                 // Get pagination info for logging purposes
-                const paginatedResult = await this.fetchRemoteNotesWithPagination(this.plugin.settings.noteFetchLimit);
+                const paginatedResult = await this.fetchRemoteNotesWithPagination(this.settings.noteFetchLimit);
                 notes = paginatedResult.notes;
-                console.log(`Fetching limited notes (limit: ${this.plugin.settings.noteFetchLimit}, has_more: ${paginatedResult.hasMore})`);
+                console.log(`Fetching limited notes (limit: ${this.settings.noteFetchLimit}, has_more: ${paginatedResult.hasMore})`);
             } else {
                 // For initial full sync with no limit
                 notes = await this.fetchAllNotes();
@@ -109,6 +148,16 @@ export class LuojiLabSyncService implements SyncService {
                 return;
             }
 
+            if (dryRun) {
+                return await this.planPull(notes, isFullSync);
+            }
+
+            // Remote deletions are found against every fetched note
+            const fetchedNotes = notes;
+            if (only) {
+                notes = notes.filter(note => only.has(String(note.id)));
+            }
+
             this.syncStatus.progress.total = notes.length;
             new Notice(`Fetched ${notes.length} notes from server.`);
 
@@ -117,20 +166,17 @@ export class LuojiLabSyncService implements SyncService {
             } else {
                 // Store the ID of the most recent note for next sync as soon as possible
                 // This helps ensure we don't re-sync the same notes if the sync is interrupted
-                if (notes.length > 0 && notes[0].id) {
+                if (!only && notes.length > 0 && notes[0].id) {
                     // Store the ID of the most recent note for next sync
-                    this.plugin.settings.lastSyncId = notes[0].id;
-                    await this.plugin.saveSettings();
-                    console.log(`Updated lastSyncId to ${notes[0].id}`);
+                    await this.plugin.cursors.update(this.profile.id, { pullCursor: notes[0].id });
+                    this.syncStatus.lastSyncId = notes[0].id;
+                    console.log(`Updated pull cursor to ${notes[0].id}`);
                 }
 
                 // Process notes
                 if (notes.length > 0) {
                     this.syncStatus.progress.total = notes.length;
                     
-                    // Use current time as the lastSyncTime
-                    this.plugin.settings.lastSyncTime = Date.now();
-                    
                     let successCount = 0;
                     let errorCount = 0;
                     let skipCount = 0;
@@ -163,6 +209,7 @@ export class LuojiLabSyncService implements SyncService {
                         } catch (error) {
                             errorCount++;
                             console.log(`Error creating/updating note for remote ID ${note.id}: ${error.message}`);
+                            this.recordNote('error', '', note.title || `Note ID: ${note.id}`, error.message);
                             
                             // Add to errors but don't abort the sync
                             this.syncStatus.errors.push({
@@ -171,12 +218,25 @@ export class LuojiLabSyncService implements SyncService {
                                 timestamp: Date.now()
                             });
                             
+                            // Keep the remote note so the download can be retried later
+                            await this.plugin.syncQueue.enqueue({
+                                service: 'luojilab',
+                                profileId: this.profile.id,
+                                type: 'download',
+                                path: note.title || note.id,
+                                remoteId: note.id,
+                                payload: note,
+                                lastError: error.message
+                            });
+                            
                             // Don't throw, continue with the next note
                         }
                     }
                     
-                    // Save last sync time and settings
-                    this.plugin.saveSettings();
+                    // A complete listing tells us which notes were deleted on the server
+                    if (isFullSync && this.fetchedAllNotes && !this.cancelRequested) {
+                        await this.detectRemoteDeletions(fetchedNotes, only);
+                    }
                     
                     // Complete the sync with a summary
                     this.syncStatus.progress.completed = notes.length;
@@ -187,8 +247,16 @@ export class LuojiLabSyncService implements SyncService {
                     new Notice('No new notes to sync');
                 }
             }
+
+            if (!this.cancelRequested && !only) {
+                await this.plugin.cursors.update(this.profile.id, isFullSync
+                    ? { lastPull: pullStarted, lastFullSync: pullStarted }
+                    : { lastPull: pullStarted });
+                this.syncStatus.lastSync = pullStarted;
+            }
         } catch (err) {
             console.error("Sync error:", err);
+            failure = err.message || String(err);
             this.syncStatus.errors.push({
                 file: '',
                 error: err.message || String(err),
@@ -196,18 +264,19 @@ export class LuojiLabSyncService implements SyncService {
             });
             new Notice(`Sync error: ${err.message}`);
         } finally {
+            await this.finishRun(failure);
             this.isSyncing = false;
             this.syncStatus.inProgress = false;
         }
     }
 
-    public async syncToServer(): Promise<void> {
+    public async syncToServer(options?: SyncOptions): Promise<SyncPlan | void> {
         if (this.isSyncing) {
             new Notice('Sync already in progress');
             return;
         }
 
-        if (!this.plugin.settings.bearerToken) {
+        if (!this.settings.bearerToken) {
             new Notice('Bearer token not set. Please configure in settings.');
             return;
         }
@@ -221,43 +290,92 @@ export class LuojiLabSyncService implements SyncService {
             currentFile: 'Preparing to sync to server...'
         };
 
+        const pushStarted = Date.now();
+        const only = options?.only ? new Set(options.only) : null;
+        this.run = options?.dryRun ? null : this.plugin.syncHistory.start('luojilab', this.profile, 'push', getSyncTrigger(options));
+        let failure: string | undefined;
+
         try {
-            const syncFolder = this.plugin.settings.syncFolder;
+            const syncFolder = this.settings.syncFolder;
             if (!syncFolder) {
                 throw new Error('Sync folder not set');
             }
 
             // Get all markdown files in the sync folder
-            const files = await this.getNotesInSyncFolder(syncFolder);
+            let files = await this.getNotesInSyncFolder(syncFolder);
+            
+            if (options?.dryRun) {
+                return await this.planPush(files);
+            }
+            if (only) {
+                files = files.filter(file => only.has(file.path));
+            }
             
             this.syncStatus.progress.total = files.length;
+
+            // While offline, queue everything and let the queue push it once we're back online
+            if (!navigator.onLine) {
+                for (const file of files) {
+                    await this.plugin.syncQueue.enqueue({
+                        service: 'luojilab',
+                        profileId: this.profile.id,
+                        type: 'upload',
+                        path: file.path,
+                        lastError: 'Offline'
+                    });
+                }
+                new Notice(`Offline: ${files.length} notes queued for upload.`);
+                return;
+            }
+
             new Notice(`Found ${files.length} local notes to check for sync.`);
 
-            // Process each file
+            let queuedCount = 0;
+            const counts = { created: 0, updated: 0, skipped: 0 };
+
+            // Process each file - a failure only queues that file for retry
             for (let i = 0; i < files.length && !this.cancelRequested; i++) {
                 const file = files[i];
                 this.syncStatus.progress.currentFile = file.basename;
                 this.syncStatus.progress.completed = i;
                 
-                // Read file content
-                const content = await this.plugin.app.vault.read(file);
-                const frontMatter = this.parseFrontMatter(content);
-                const noteContent = this.extractNoteContent(content);
-                
-                // Skip files that have already been synced and haven't changed
-                if (frontMatter?.remote_id) {
-                    // This is an existing note, determine if it needs updating
-                    // Logic for determining if note needs updating could be added here
-                    await this.updateNoteOnServer(frontMatter, noteContent);
-                } else {
-                    // This is a new note to sync
-                    await this.createNoteOnServer(frontMatter, noteContent);
+                try {
+                    const result = await this.pushFile(file);
+                    counts[result]++;
+                    this.recordNote(PUSH_ACTIONS[result], file.path, file.basename);
+                } catch (error) {
+                    console.error(`Error syncing ${file.path} to server:`, error);
+                    this.recordNote('error', file.path, file.basename, error.message);
+                    this.syncStatus.errors.push({
+                        file: file.path,
+                        error: `Failed to upload note: ${error.message}`,
+                        timestamp: Date.now()
+                    });
+                    await this.plugin.syncQueue.enqueue({
+                        service: 'luojilab',
+                        profileId: this.profile.id,
+                        type: 'upload',
+                        path: file.path,
+                        lastError: error.message
+                    });
+                    queuedCount++;
                 }
             }
 
-            new Notice('Sync to server completed!');
+            const summary = `${counts.created} created, ${counts.updated} updated, ${counts.skipped} unchanged`;
+            if (queuedCount > 0) {
+                new Notice(`Sync to server completed: ${summary}. ${queuedCount} notes failed and were queued for retry.`);
+            } else {
+                new Notice(`Sync to server completed: ${summary}`);
+            }
+
+            if (!this.cancelRequested && !only) {
+                await this.plugin.cursors.update(this.profile.id, { lastPush: pushStarted });
+                this.syncStatus.lastSync = pushStarted;
+            }
         } catch (err) {
             console.error("Sync to server error:", err);
+            failure = err.message || String(err);
             this.syncStatus.errors.push({
                 file: '',
                 error: err.message || String(err),
@@ -265,11 +383,51 @@ export class LuojiLabSyncService implements SyncService {
             });
             new Notice(`Sync to server error: ${err.message}`);
         } finally {
+            await this.finishRun(failure);
             this.isSyncing = false;
             this.syncStatus.inProgress = false;
         }
     }
 
+    /**
+     * Record what the sync in progress did to a note in the sync history
+     */
+    private recordNote(action: SyncRunAction, path: string, title: string, detail?: string): void {
+        if (this.run) {
+            this.plugin.syncHistory.record(this.run, action, path, title, detail);
+        }
+    }
+
+    /**
+     * Add the sync that just ended to the sync history
+     * @param failure Why it stopped, if it failed
+     */
+    private async finishRun(failure?: string): Promise<void> {
+        const run = this.run;
+        if (!run) return;
+        this.run = null;
+        await this.plugin.snapshots.finish(run);
+        await this.plugin.syncHistory.finish(run, failure ? 'failed' : this.cancelRequested ? 'cancelled' : 'completed', failure);
+    }
+
+    /**
+     * Keep the content of a file in the snapshot of the sync in progress, before it's changed or deleted
+     */
+    private async snapshot(file: TFile, remoteId?: string): Promise<void> {
+        if (this.run) {
+            await this.plugin.snapshots.capture(this.run, file, remoteId);
+        }
+    }
+
+    /**
+     * Record in the snapshot of the sync in progress that it created a file
+     */
+    private async snapshotCreated(path: string, remoteId?: string): Promise<void> {
+        if (this.run) {
+            await this.plugin.snapshots.captureCreated(this.run, path, remoteId);
+        }
+    }
+
     public cancelSync(): void {
         if (!this.isSyncing) return;
         
@@ -278,13 +436,181 @@ export class LuojiLabSyncService implements SyncService {
     }
 
     public getSyncStatus(): SyncStatus {
-        return { ...this.syncStatus };
+        return {
+            ...this.syncStatus,
+            pendingChanges: this.plugin.syncQueue.count('luojilab', this.profile.id)
+        };
+    }
+
+    /**
+     * Retry a single queued upload, download or delete. Throws if it fails again.
+     */
+    public async processQueueItem(item: SyncQueueItem): Promise<void> {
+        if (item.type === 'download') {
+            await this.createOrUpdateLocalNote(item.payload as RemoteNote);
+            return;
+        }
+
+        if (item.type === 'delete') {
+            if (item.remoteId) {
+                await this.deleteRemoteNote(item.remoteId);
+                await this.plugin.deletionManager.markPropagated('luojilab', item.remoteId);
+            }
+            return;
+        }
+
+        // Follow the note if it was renamed since it was queued
+        const file = this.plugin.app.vault.getAbstractFileByPath(item.path)
+            ?? (item.remoteId ? await this.plugin.syncState.findFile('luojilab', item.remoteId) : null);
+        if (!(file instanceof TFile)) {
+            // The note was deleted since it was queued, nothing left to upload
+            console.log(`Queued file ${item.path} no longer exists, dropping upload`);
+            return;
+        }
+
+        await this.pushFile(file);
+    }
+
+    public async deleteRemoteNote(remoteId: string): Promise<void> {
+        const baseUrl = this.settings.apiBaseUrl;
+        const url = `${baseUrl}/notes/${remoteId}`;
+        
+        const response = await this.fetchWithTimeout(url, {
+            method: "DELETE",
+            headers: {
+                "Authorization": `Bearer ${this.settings.bearerToken}`,
+                "Content-Type": "application/json",
+            },
+        });
+        
+        if (!response.ok) {
+            throw new Error(`Failed to delete note: ${response.status} ${response.statusText}`);
+        }
+
+        await this.plugin.mergeBaseStore.delete('luojilab', remoteId);
+    }
+
+    /**
+     * Upload a single local note to the server.
+     * Notes that already have a remote_id are updated in place, and only when
+     * they were edited since the last sync.
+     */
+    private async pushFile(file: TFile): Promise<'created' | 'updated' | 'skipped'> {
+        // Hashes are taken with the remote links of downloaded images, which the index maps back
+        await this.plugin.attachments.load();
+        const content = await this.plugin.app.vault.read(file);
+        const frontMatter = this.parseFrontMatter(content);
+        const noteContent = this.extractNoteContent(content);
+        const syncedContent = this.getSyncedBody(frontMatter, noteContent);
+        
+        // Notes deleted on the server stay deleted
+        if (frontMatter?.remote_id && this.plugin.deletionManager.isDeleted('luojilab', String(frontMatter.remote_id))) {
+            console.log(`Skipping ${file.path}: remote note ${frontMatter.remote_id} was deleted`);
+            return 'skipped';
+        }
+
+        // Never upload conflict markers
+        if (/^<<<<<<< /m.test(noteContent)) {
+            throw new Error('Note has unresolved conflict markers');
+        }
+        
+        // Images go to the server as links: downloaded ones as their remote links,
+        // local ones are uploaded first
+        await this.plugin.attachments.uploadEmbeds('luojilab', syncedContent, file.path, frontMatter?.remote_id,
+            (attachment, data) => this.uploadFileToServer(attachment, data));
+        const remoteContent = this.plugin.attachments.restoreLinks('luojilab', syncedContent);
+        const hashBody = this.getHashBody(frontMatter, noteContent);
+        
+        if (frontMatter?.remote_id) {
+            if (!this.hasLocalChanges(file, frontMatter, hashBody)) {
+                return 'skipped';
+            }
+            
+            await this.updateNoteOnServer(frontMatter, remoteContent);
+            await this.conflictResolver.recordBase(frontMatter.remote_id, syncedContent);
+            await this.markFileSynced(file, frontMatter, noteContent, hashBody);
+            return 'updated';
+        }
+        
+        // This is a new note to sync
+        const result = await this.createNoteOnServer(frontMatter, remoteContent);
+        const createdNote = result?.c;
+        
+        // Write the new remote_id back so the next push updates instead of duplicating
+        if (createdNote?.id) {
+            const updatedFrontMatter: FrontMatter = {
+                ...(frontMatter || {}),
+                remote_id: createdNote.id,
+                note_id: createdNote.note_id ?? frontMatter?.note_id,
+            };
+            await this.conflictResolver.recordBase(createdNote.id, syncedContent);
+            await this.markFileSynced(file, updatedFrontMatter, noteContent, hashBody);
+        } else {
+            console.warn(`Server did not return an ID for ${file.path}, it may be uploaded again`);
+        }
+        return 'created';
+    }
+
+    /**
+     * Whether the note was edited locally since it was last synced
+     */
+    private hasLocalChanges(file: TFile, frontMatter: FrontMatter, body: string): boolean {
+        // Merged content that hasn't reached the server yet
+        if (frontMatter.sync_status === 'pending') {
+            return true;
+        }
+        
+        const storedHash = getStoredContentHash(frontMatter);
+        if (storedHash) {
+            return computeContentHash(body, frontMatter) !== storedHash;
+        }
+        
+        // Notes synced before content hashes were recorded
+        const lastSynced = Number(frontMatter.last_synced) || 0;
+        if (!lastSynced) {
+            return true;
+        }
+        
+        // Writing last_synced itself bumps mtime slightly past the recorded time
+        return file.stat.mtime > lastSynced + LuojiLabSyncService.SYNC_TIME_TOLERANCE;
+    }
+
+    /**
+     * Record a successful push in the note's frontmatter
+     * @param hashBody The body as the server holds it, which the hash is taken of
+     */
+    private async markFileSynced(file: TFile, frontMatter: FrontMatter, body: string, hashBody: string = body): Promise<void> {
+        const syncedFrontMatter: FrontMatter = {
+            ...frontMatter,
+            last_synced: Date.now(),
+            sync_status: 'synced',
+            content_hash: computeContentHash(hashBody, frontMatter)
+        };
+        const existingNote = await this.plugin.app.vault.read(file);
+        await this.plugin.app.vault.modify(file, this.serializeToMarkdown(syncedFrontMatter, body, existingNote));
+        if (syncedFrontMatter.remote_id) {
+            await this.recordSyncState(syncedFrontMatter.remote_id, file.path, syncedFrontMatter.content_hash, frontMatter.updated_at);
+        }
+    }
+
+    /**
+     * Update the sync state index after a note was synced
+     */
+    private async recordSyncState(remoteId: string, path: string, hash?: string, remoteUpdatedAt?: string): Promise<void> {
+        await this.plugin.syncState.set({
+            service: 'luojilab',
+            remoteId: String(remoteId),
+            path,
+            hash,
+            remoteUpdatedAt,
+            lastSynced: Date.now()
+        });
     }
 
     public async testConnection(): Promise<{ success: boolean; message: string }> {
         try {
-            const token = this.plugin.settings.bearerToken;
-            const baseUrl = this.plugin.settings.apiBaseUrl;
+            const token = this.settings.bearerToken;
+            const baseUrl = this.settings.apiBaseUrl;
             
             if (!token || token.trim() === '') {
                 return { 
@@ -371,7 +697,7 @@ export class LuojiLabSyncService implements SyncService {
     }
 
     private async ensureSyncFolderExists(): Promise<void> {
-        const folderPath = this.plugin.settings.syncFolder;
+        const folderPath = this.settings.syncFolder;
         if (!folderPath) return;
         
         try {
@@ -424,7 +750,7 @@ export class LuojiLabSyncService implements SyncService {
             params.append('sort', 'create_desc');
             
             // Create URL with parameters
-            const url = `${this.plugin.settings.apiBaseUrl}/notes?${params.toString()}`;
+            const url = `${this.settings.apiBaseUrl}/notes?${params.toString()}`;
             console.log(`Fetching notes with URL: ${url}`);
 
             const response: Response = await Promise.race([
@@ -433,7 +759,7 @@ export class LuojiLabSyncService implements SyncService {
                     headers: {
                         'Accept': 'application/json, text/plain, */*',
                         'Content-Type': 'application/json',
-                        'Authorization': `Bearer ${this.plugin.settings.bearerToken}`
+                        'Authorization': `Bearer ${this.settings.bearerToken}`
                     }
                 }),
                 timeout
@@ -460,6 +786,7 @@ export class LuojiLabSyncService implements SyncService {
     }
 
     private async fetchAllNotes(): Promise<RemoteNote[]> {
+        this.fetchedAllNotes = false;
         let allNotes: RemoteNote[] = [];
         let page = 1;
         const pageSize = 20;
@@ -472,7 +799,7 @@ export class LuojiLabSyncService implements SyncService {
             
             // For the first page, make a clean request without filtering
             // The API expects: limit=X&sort=create_desc format
-            const firstPageUrl = `${this.plugin.settings.apiBaseUrl}/notes?limit=${pageSize}&sort=create_desc`;
+            const firstPageUrl = `${this.settings.apiBaseUrl}/notes?limit=${pageSize}&sort=create_desc`;
             console.log(`Fetching first page, URL: ${firstPageUrl}`);
 
             const firstPageResponse = await fetch(firstPageUrl, {
@@ -480,7 +807,7 @@ export class LuojiLabSyncService implements SyncService {
                 headers: {
                     'Accept': 'application/json, text/plain, */*',
                     'Content-Type': 'application/json',
-                    'Authorization': `Bearer ${this.plugin.settings.bearerToken}`
+                    'Authorization': `Bearer ${this.settings.bearerToken}`
                 }
             });
             
@@ -493,6 +820,8 @@ export class LuojiLabSyncService implements SyncService {
             
             if (firstBatch.length === 0) {
                 console.log('No notes found');
+                // An empty first page is too weak a signal to treat every local note as deleted
+                this.fetchedAllNotes = false;
                 return [];
             }
             
@@ -523,7 +852,7 @@ export class LuojiLabSyncService implements SyncService {
                 }
                 
                 // This matches the format seen in the curl command that works
-                const nextPageUrl = `${this.plugin.settings.apiBaseUrl}/notes?limit=${pageSize}&since_id=${lastId}&sort=create_desc`;
+                const nextPageUrl = `${this.settings.apiBaseUrl}/notes?limit=${pageSize}&since_id=${lastId}&sort=create_desc`;
                 console.log(`Fetching page ${page}, URL: ${nextPageUrl}`);
                 
                 const response = await fetch(nextPageUrl, {
@@ -531,7 +860,7 @@ export class LuojiLabSyncService implements SyncService {
                     headers: {
                         'Accept': 'application/json, text/plain, */*',
                         'Content-Type': 'application/json',
-                        'Authorization': `Bearer ${this.plugin.settings.bearerToken}`
+                        'Authorization': `Bearer ${this.settings.bearerToken}`
                     }
                 });
                 
@@ -572,6 +901,7 @@ export class LuojiLabSyncService implements SyncService {
             }
 
             console.log(`Fetched ${allNotes.length} notes in total from ${page - 1} pages`);
+            this.fetchedAllNotes = !hasMore && !this.cancelRequested;
             return allNotes;
         } catch (error) {
             console.error("Error fetching all notes:", error);
@@ -582,23 +912,18 @@ export class LuojiLabSyncService implements SyncService {
     private async createOrUpdateLocalNote(remoteMemo: RemoteNote): Promise<void> {
         try {
             // Skip processing if the note has no content
-            if (!remoteMemo.content && !remoteMemo.title) {
+            if (!remoteMemo.content && !remoteMemo.json_content && !remoteMemo.title) {
                 console.log(`Skipping empty note with ID ${remoteMemo.id}`);
+                this.recordNote('skip', '', 'Untitled', 'Empty note');
                 return;
             }
 
-            // Determine folder path with subfolder based on tags
-            const baseFolderPath = this.plugin.settings.syncFolder;
-            let subfolder = "";
-            if (remoteMemo.tags && remoteMemo.tags.length > 0) {
-                subfolder = remoteMemo.tags[0].name;
+            // Don't bring back notes that were deleted locally
+            if (this.plugin.deletionManager.isDeleted('luojilab', remoteMemo.id)) {
+                console.log(`Skipping deleted note with ID ${remoteMemo.id}`);
+                this.recordNote('skip', '', remoteMemo.title || 'Untitled', 'Deleted in the vault');
+                return;
             }
-            const folderPath = subfolder ? `${baseFolderPath}/${subfolder}` : baseFolderPath;
-            
-            // Ensure folder exists
-            await this.plugin.app.vault.createFolder(folderPath).catch(() => {
-                // Folder might already exist, that's okay
-            });
 
             // Try to find an existing file for this memo
             const existingFile = await this.findExistingNoteByRemoteId(remoteMemo.id);
@@ -607,64 +932,78 @@ export class LuojiLabSyncService implements SyncService {
                 // Update existing file logic
                 console.log(`Updating existing note: ${existingFile.path} (remote ID: ${remoteMemo.id})`);
                 
-                // Prepare the content with frontmatter
-                const localContent = this.formatNoteContent(remoteMemo);
+                // Merge remote changes with any local edits made since the last sync
+                const existingContent = await this.plugin.app.vault.read(existingFile);
+                const localBody = this.extractNoteContent(existingContent);
+                const remoteBody = await this.getLocalBody(remoteMemo);
                 
-                if (await this.hasConflict(remoteMemo, existingFile)) {
-                    // Handle conflict
+                // Leave the file alone if the server copy hasn't changed since the last sync,
+                // or already matches the local file. Hashes are taken with the remote image links.
+                const existingFrontMatter = this.parseFrontMatter(existingContent);
+                const remoteHash = this.getRemoteContentHash(remoteMemo);
+                if (getStoredContentHash(existingFrontMatter) === remoteHash ||
+                    computeContentHash(this.getHashBody(existingFrontMatter, localBody), existingFrontMatter) === remoteHash) {
+                    console.log(`Note ${remoteMemo.id} unchanged on server, skipping ${existingFile.path}`);
+                    await this.conflictResolver.recordBase(remoteMemo.id, remoteBody);
+                    this.recordNote('skip', existingFile.path, existingFile.basename, 'Unchanged');
+                    return;
+                }
+                
+                // Only the summary of voice notes is merged, their other sections come from the server
+                const voiceNote = await this.getVoiceNoteParts(remoteMemo);
+                const localSynced = voiceNote ? this.getSyncedBody({ voice_note: true }, localBody) : localBody;
+                const resolution = await this.conflictResolver.resolve(remoteMemo.id, localSynced, remoteBody, existingFile.basename);
+                
+                if (resolution.localCopy !== undefined) {
+                    const copy = await this.conflictResolver.saveLocalCopy(existingFile, resolution.localCopy);
+                    await this.snapshotCreated(copy.path);
+                }
+                
+                if (resolution.status === 'conflict') {
                     console.log(`Conflict detected for note ${remoteMemo.id}`);
-                    const conflictContent = this.formatConflictContent(remoteMemo, existingFile);
-                    await this.plugin.app.vault.modify(existingFile, conflictContent);
-                } else {
-                    // No conflict, just update
-                    await this.plugin.app.vault.modify(existingFile, localContent);
+                    this.syncStatus.errors.push({
+                        file: existingFile.path,
+                        error: 'Content conflict detected - manual resolution required',
+                        timestamp: Date.now()
+                    });
+                    new Notice(`Conflict detected in note ${existingFile.basename}. Please resolve manually.`);
                 }
+                
+                const localContent = this.formatNoteContent(remoteMemo, this.renderLocalBody(voiceNote, resolution.body), resolution.status, existingContent);
+                await this.snapshot(existingFile, remoteMemo.id);
+                await this.plugin.app.vault.modify(existingFile, localContent);
+                await this.conflictResolver.recordBase(remoteMemo.id, remoteBody);
+                await this.recordSyncState(remoteMemo.id, existingFile.path, remoteHash, remoteMemo.updated_at);
+                this.recordNote(resolution.status === 'conflict' ? 'conflict' : 'update', existingFile.path, existingFile.basename,
+                    resolution.status === 'pending' ? 'Kept local edits, to be pushed' : undefined);
                 return;
             } 
             
-            // No existing file found, create a new one
-            // Try first without ID prefix for backward compatibility
-            let fileName = this.getFileName(remoteMemo, false);
-            
-            // Check for any file with matching name (regardless of ID)
-            const potentialExistingPath = `${folderPath}/${fileName}`;
-            const fileWithSameName = await this.plugin.app.vault.getAbstractFileByPath(potentialExistingPath);
+            // No existing file found, create a new one where the path template puts it.
+            // On a name conflict, part of the ID is appended to the name.
+            const filePath = getAvailablePath(
+                this.getNotePath(this.getFrontMatterFields(remoteMemo)),
+                remoteMemo.id,
+                candidate => !!this.plugin.app.vault.getAbstractFileByPath(candidate)
+            );
             
-            // If name conflict exists, retry with ID prefix
-            if (fileWithSameName) {
-                console.log(`Name conflict: ${fileName} already exists, adding ID prefix`);
-                // Add ID prefix to ensure uniqueness
-                fileName = this.getFileName(remoteMemo, true);
-                
-                // If still conflicts, add timestamp as last resort
-                const newPath = `${folderPath}/${fileName}`;
-                const stillConflicts = await this.plugin.app.vault.getAbstractFileByPath(newPath);
-                
-                if (stillConflicts) {
-                    console.log(`Name still conflicts even with ID prefix, adding timestamp`);
-                    const fileNameParts = path.parse(fileName);
-                    fileName = `${fileNameParts.name}-${Date.now()}${fileNameParts.ext}`;
-                }
-            }
+            // Ensure folder exists
+            await this.plugin.app.vault.createFolder(filePath.substring(0, filePath.lastIndexOf('/'))).catch(() => {
+                // Folder might already exist, that's okay
+            });
             
             // Prepare the content with frontmatter
-            const localContent = this.formatNoteContent(remoteMemo);
+            const remoteBody = await this.getLocalBody(remoteMemo);
+            const localContent = this.formatNoteContent(remoteMemo, this.renderLocalBody(await this.getVoiceNoteParts(remoteMemo), remoteBody));
             
             // Create the file with a unique name
             try {
-                const filePath = `${folderPath}/${fileName}`;
                 await this.plugin.app.vault.create(filePath, localContent);
+                await this.snapshotCreated(filePath, remoteMemo.id);
+                await this.conflictResolver.recordBase(remoteMemo.id, remoteBody);
+                await this.recordSyncState(remoteMemo.id, filePath, this.getRemoteContentHash(remoteMemo), remoteMemo.updated_at);
                 console.log(`Created new note: ${filePath} (remote ID: ${remoteMemo.id})`);
-                
-                // Update the ID to path cache
-                try {
-                    const cachedData = await this.plugin.loadData() || {};
-                    cachedData.idToPathCache = cachedData.idToPathCache || {};
-                    cachedData.idToPathCache[remoteMemo.id] = filePath;
-                    await this.plugin.saveData(cachedData);
-                } catch (e) {
-                    console.error('Failed to update cache after creating note:', e);
-                }
+                this.recordNote('create', filePath, remoteMemo.title || 'Untitled');
             } catch (error) {
                 console.error(`Failed to create note: ${error.message}`);
                 throw new Error(`Failed to create note: ${error.message}`);
@@ -676,84 +1015,164 @@ export class LuojiLabSyncService implements SyncService {
     }
 
     /**
-     * Find a note by its remote_id in frontmatter
+     * Find the local file of a remote note through the sync state index
      */
     private async findExistingNoteByRemoteId(remoteId: string): Promise<TFile | null> {
-        // Use a more efficient lookup approach
-        // First, check if we have a cached index of remote_id -> file path
+        await this.plugin.syncState.ensureSeeded('luojilab', this.settings.syncFolder, 'remote_id');
+        return this.plugin.syncState.findFile('luojilab', remoteId);
+    }
+
+    /**
+     * Handle local notes whose remote note no longer exists on the server.
+     * Only valid after a complete fetch of all remote notes.
+     * @param only Remote IDs of the deletions to handle, all of them by default
+     */
+    private async detectRemoteDeletions(remoteNotes: RemoteNote[], only?: Set<string> | null): Promise<void> {
+        const deletions = (await this.findRemoteDeletions(remoteNotes))
+            .filter(deletion => !only || only.has(deletion.remoteId));
         
-        // Check if we have a cache stored in plugin data
-        let idToPathCache: Record<string, string> = {};
+        if (deletions.length > 0) {
+            console.log(`${deletions.length} local notes no longer exist on the server`);
+            const notes = deletions.map(({ file }) => ({ path: file.path, title: file.basename }));
+            for (const { remoteId, file } of deletions) {
+                await this.snapshot(file, remoteId);
+            }
+            await this.plugin.deletionManager.handleRemoteDeletions('luojilab', deletions);
+            // Depending on the delete policy, local copies are moved to the trash or kept
+            for (const { path, title } of notes) {
+                const moved = !this.plugin.app.vault.getAbstractFileByPath(path);
+                this.recordNote(moved ? 'delete' : 'skip', path, title, moved ? 'Deleted on LuojiLab' : 'Deleted on LuojiLab, local copy kept');
+            }
+        }
+    }
+
+    /**
+     * Local notes whose remote note isn't among the fetched ones
+     */
+    private async findRemoteDeletions(remoteNotes: RemoteNote[]): Promise<Array<{ remoteId: string; file: TFile }>> {
+        const remoteIds = new Set(remoteNotes.map(note => String(note.id)));
+        const deletions: Array<{ remoteId: string; file: TFile }> = [];
         
-        try {
-            const cachedData = await this.plugin.loadData();
-            idToPathCache = cachedData?.idToPathCache || {};
-        } catch (e) {
-            console.log('No cache found, will build cache');
-            idToPathCache = {};
+        await this.plugin.syncState.ensureSeeded('luojilab', this.settings.syncFolder, 'remote_id');
+        for (const entry of await this.plugin.syncState.getEntries('luojilab', this.settings.syncFolder)) {
+            if (remoteIds.has(entry.remoteId)) continue;
+            
+            const file = await this.plugin.syncState.findFile('luojilab', entry.remoteId);
+            if (file) {
+                deletions.push({ remoteId: entry.remoteId, file });
+            }
         }
+        return deletions;
+    }
+
+    /**
+     * What pulling the fetched notes would do, worked out without writing or downloading anything
+     */
+    private async planPull(notes: RemoteNote[], isFullSync: boolean): Promise<SyncPlan> {
+        // Hashes are taken with the remote links of downloaded images, which the index maps back
+        await this.plugin.attachments.load();
+        const items: SyncPlanItem[] = [];
+        const planned = new Set<string>();      // Keys, and paths of planned creates
         
-        // If we have a cache entry for this ID, check if the file still exists
-        if (idToPathCache[remoteId]) {
-            const cachedFile = this.plugin.app.vault.getAbstractFileByPath(idToPathCache[remoteId]);
-            if (cachedFile instanceof TFile) {
-                // Verify the remote_id still matches (just to be safe)
-                try {
-                    const content = await this.plugin.app.vault.read(cachedFile);
-                    const frontMatter = this.parseFrontMatter(content);
-                    
-                    if (frontMatter && frontMatter.remote_id === remoteId) {
-                        return cachedFile;
-                    }
-                } catch (err) {
-                    console.log(`Cached file found but error reading content: ${err.message}`);
-                    // Continue with full scan
-                }
+        for (const note of notes) {
+            if (this.cancelRequested) break;
+            if (planned.has(String(note.id))) continue;
+            planned.add(String(note.id));
+            
+            const item = await this.planNote(note, planned);
+            if (item.action === 'create') {
+                planned.add(item.path);
             }
+            items.push(item);
         }
         
-        // If no valid cache entry, scan all files in the sync folder and its subdirectories
-        // Get all markdown files that could contain this note - including files in tag subdirectories
-        const baseFolderPath = this.plugin.settings.syncFolder;
-        const files = this.plugin.app.vault.getMarkdownFiles().filter(file => 
-            file.path.startsWith(baseFolderPath + '/') || file.path === baseFolderPath
-        );
+        if (isFullSync && this.fetchedAllNotes && !this.cancelRequested) {
+            for (const { remoteId, file } of await this.findRemoteDeletions(notes)) {
+                items.push({ key: remoteId, action: 'delete', path: file.path, title: file.basename, reason: 'Deleted on LuojiLab' });
+            }
+        }
+        
+        return { service: 'luojilab', profileId: this.profile.id, account: this.profile.name, direction: 'pull', items };
+    }
+
+    /**
+     * What createOrUpdateLocalNote() would do with a remote note
+     * @param planned Paths that planned creates take
+     */
+    private async planNote(remoteMemo: RemoteNote, planned: Set<string>): Promise<SyncPlanItem> {
+        const plan = (action: SyncPlanItem['action'], path: string, reason?: string): SyncPlanItem =>
+            ({ key: String(remoteMemo.id), action, path, title: remoteMemo.title || 'Untitled', reason });
         
-        // If no valid cache entry, scan all files
-        // But also build up the cache while we're scanning
-        const newCache: Record<string, string> = {...idToPathCache};
-        let foundFile: TFile | null = null;
+        if (!remoteMemo.content && !remoteMemo.json_content && !remoteMemo.title) {
+            return plan('skip', '', 'Empty note');
+        }
+        if (this.plugin.deletionManager.isDeleted('luojilab', remoteMemo.id)) {
+            return plan('skip', '', 'Deleted in the vault');
+        }
         
-        for (const file of files) {
-            try {
-                const content = await this.plugin.app.vault.read(file);
-                const frontMatter = this.parseFrontMatter(content);
-                
-                if (frontMatter && frontMatter.remote_id) {
-                    // Update the cache entry for this file
-                    newCache[frontMatter.remote_id] = file.path;
-                    
-                    // If this is the file we're looking for, store it
-                    if (frontMatter.remote_id === remoteId) {
-                        foundFile = file;
-                    }
-                }
-            } catch (err) {
-                console.error(`Error checking file ${file.path}:`, err);
-                // Continue to next file
-            }
+        const existingFile = await this.findExistingNoteByRemoteId(remoteMemo.id);
+        if (!existingFile) {
+            const filePath = getAvailablePath(
+                this.getNotePath(this.getFrontMatterFields(remoteMemo)),
+                remoteMemo.id,
+                candidate => planned.has(candidate) || !!this.plugin.app.vault.getAbstractFileByPath(candidate)
+            );
+            return plan('create', filePath, 'New on LuojiLab');
         }
         
-        // Save the updated cache
-        try {
-            const cachedData = await this.plugin.loadData() || {};
-            cachedData.idToPathCache = newCache;
-            await this.plugin.saveData(cachedData);
-        } catch (e) {
-            console.error('Failed to update cache:', e);
+        const existingContent = await this.plugin.app.vault.read(existingFile);
+        const existingFrontMatter = this.parseFrontMatter(existingContent);
+        const localBody = this.extractNoteContent(existingContent);
+        const remoteHash = this.getRemoteContentHash(remoteMemo);
+        if (getStoredContentHash(existingFrontMatter) === remoteHash ||
+            computeContentHash(this.getHashBody(existingFrontMatter, localBody), existingFrontMatter) === remoteHash) {
+            return plan('skip', existingFile.path, 'Unchanged');
         }
         
-        return foundFile;
+        // Bodies are compared with their remote image links, as nothing is downloaded
+        const localSynced = isVoiceNote(remoteMemo) ? this.getSyncedBody({ voice_note: true }, localBody) : localBody;
+        const restoreLinks = (body: string) => this.plugin.attachments.restoreLinks('luojilab', body);
+        switch (await this.conflictResolver.preview(remoteMemo.id, restoreLinks(localSynced), this.getRemoteBody(remoteMemo), restoreLinks)) {
+            case 'unchanged':
+                return plan('update', existingFile.path, 'Details changed on LuojiLab');
+            case 'remote':
+                return plan('update', existingFile.path, 'Changed on LuojiLab');
+            case 'local':
+                return plan('update', existingFile.path, 'Details changed on LuojiLab; local edits are kept');
+            case 'merged':
+                return plan('update', existingFile.path, 'Local and LuojiLab edits merge');
+            default:
+                return plan('conflict', existingFile.path, 'Edited in both places');
+        }
+    }
+
+    /**
+     * What pushing the notes would do, worked out without uploading anything
+     */
+    private async planPush(files: TFile[]): Promise<SyncPlan> {
+        // Hashes are taken with the remote links of downloaded images, which the index maps back
+        await this.plugin.attachments.load();
+        const items: SyncPlanItem[] = [];
+        for (const file of files) {
+            const content = await this.plugin.app.vault.read(file);
+            const frontMatter = this.parseFrontMatter(content);
+            const noteContent = this.extractNoteContent(content);
+            const plan = (action: SyncPlanItem['action'], reason?: string): SyncPlanItem =>
+                ({ key: file.path, action, path: file.path, title: frontMatter?.title || file.basename, reason });
+            
+            if (frontMatter?.remote_id && this.plugin.deletionManager.isDeleted('luojilab', String(frontMatter.remote_id))) {
+                items.push(plan('skip', 'Deleted on LuojiLab'));
+            } else if (/^<<<<<<< /m.test(noteContent)) {
+                items.push(plan('skip', 'Unresolved conflict markers'));
+            } else if (!frontMatter?.remote_id) {
+                items.push(plan('create', 'New note'));
+            } else if (this.hasLocalChanges(file, frontMatter, this.getHashBody(frontMatter, noteContent))) {
+                items.push(plan('update', 'Edited since the last sync'));
+            } else {
+                items.push(plan('skip', 'Unchanged'));
+            }
+        }
+        return { service: 'luojilab', profileId: this.profile.id, account: this.profile.name, direction: 'push', items };
     }
 
     private async getNotesInSyncFolder(folder: string): Promise<TFile[]> {
@@ -769,49 +1188,34 @@ export class LuojiLabSyncService implements SyncService {
     }
 
     private parseFrontMatter(content: string): FrontMatter | null {
-        try {
-            const match = content.match(/^---\n([\s\S]*?)\n---/);
-            if (!match) return null;
-
-            const frontMatter = yaml.load(match[1]) as FrontMatter;
-            return frontMatter;
-        } catch (e) {
-            console.error('Error parsing front matter:', e);
-            return null;
-        }
+        // Keys renamed by the note template are read under their own names
+        return this.noteTemplate.readFrontMatter(parseFrontMatter(content) as FrontMatter | null);
     }
     
     private extractNoteContent(content: string): string {
-        const match = content.match(/^---\n[\s\S]*?\n---\n([\s\S]*)/);
-        if (!match) return content;
-        return match[1].trim();
-    }
-
-    private serializeToMarkdown(frontMatter: FrontMatter, content: string): string {
-        let yaml = `---\n`;
-        for (const key in frontMatter) {
-            const value = frontMatter[key];
-            if (Array.isArray(value)) {
-                yaml += `${key}:\n`;
-                value.forEach((val: string) => {
-                    yaml += `  - ${val}\n`;
-                });
-            } else {
-                yaml += `${key}: ${value}\n`;
-            }
-        }
-        yaml += `---\n\n`;
-        return yaml + content;
+        return this.noteTemplate.extractBody(stripFrontMatter(content));
+    }
+
+    /**
+     * Write a note through the note template
+     * @param existingNote The note being rewritten, whose own keys and protected region are kept
+     */
+    private serializeToMarkdown(frontMatter: FrontMatter, content: string, existingNote?: string): string {
+        return formatNote(
+            this.noteTemplate.renderFrontMatter(frontMatter),
+            this.noteTemplate.renderBody(content, this.getTemplateVariables(frontMatter), existingNote),
+            existingNote !== undefined ? parseFrontMatter(existingNote) : null
+        );
     }
     
     private async createNoteOnServer(frontMatter: FrontMatter | null, content: string) {
-        const baseUrl = this.plugin.settings.apiBaseUrl;
+        const baseUrl = this.settings.apiBaseUrl;
         const url = `${baseUrl}/notes`;
         
         const payload = {
             title: frontMatter?.title || "",
             content: content,
-            json_content: "", // You might want to parse content into JSON format
+            json_content: markdownToJsonContent(content),
             entry_type: frontMatter?.entry_type || "manual",
             note_type: frontMatter?.note_type || "plain_text",
             source: frontMatter?.source || "web",
@@ -821,7 +1225,7 @@ export class LuojiLabSyncService implements SyncService {
         const response = await this.fetchWithTimeout(url, {
             method: "POST",
             headers: {
-                "Authorization": `Bearer ${this.plugin.settings.bearerToken}`,
+                "Authorization": `Bearer ${this.settings.bearerToken}`,
                 "Content-Type": "application/json",
             },
             body: JSON.stringify(payload),
@@ -834,15 +1238,67 @@ export class LuojiLabSyncService implements SyncService {
         return await response.json();
     }
 
-    private async updateNoteOnServer(frontMatter: FrontMatter | null, content: string) {
-        // For simplicity, we're just creating a new note
-        // In a real implementation, you might want to update an existing note if supported by the API
-        return this.createNoteOnServer(frontMatter, content);
+    /**
+     * Upload a file for notes to link to; it's known by its URL
+     */
+    private async uploadFileToServer(file: TFile, content: ArrayBuffer): Promise<{ remoteId: string; url: string }> {
+        const url = `${this.settings.apiBaseUrl}/files`;
+        const form = new FormData();
+        form.append("file", new Blob([content]), file.name);
+
+        const response = await this.fetchWithTimeout(url, {
+            method: "POST",
+            headers: {
+                "Authorization": `Bearer ${this.settings.bearerToken}`,
+            },
+            body: form,
+        }, 30000);
+
+        if (!response.ok) {
+            throw new Error(`Failed to upload ${file.name}: ${response.status} ${response.statusText}`);
+        }
+
+        const result = await response.json();
+        const fileUrl = result?.c?.url;
+        if (!fileUrl) {
+            throw new Error(`Server did not return a URL for ${file.name}`);
+        }
+        return { remoteId: fileUrl, url: fileUrl };
+    }
+
+    private async updateNoteOnServer(frontMatter: FrontMatter, content: string) {
+        const baseUrl = this.settings.apiBaseUrl;
+        const url = `${baseUrl}/notes/${frontMatter.remote_id}`;
+        
+        const payload = {
+            title: frontMatter.title || "",
+            content: content,
+            json_content: markdownToJsonContent(content),
+            entry_type: frontMatter.entry_type || "manual",
+            note_type: frontMatter.note_type || "plain_text",
+            source: frontMatter.source || "web",
+            tags: frontMatter.tags || [],
+        };
+
+        const response = await this.fetchWithTimeout(url, {
+            method: "PUT",
+            headers: {
+                "Authorization": `Bearer ${this.settings.bearerToken}`,
+                "Content-Type": "application/json",
+            },
+            body: JSON.stringify(payload),
+        });
+
+        if (!response.ok) {
+            throw new Error(`Failed to update note: ${response.status} ${response.statusText}`);
+        }
+
+        return await response.json();
     }
 
     private shouldUseAiForTitleGeneration(): boolean {
         // Check if global setting is enabled
-        if (this.plugin.settings.useLlmForTitles && this.plugin.settings.llmType && this.plugin.settings.llmApiKey) {
+        if (this.settings.useLlmForTitles && this.settings.llmType && this.settings.llmApiKey) {
             return true;
         }
         
@@ -850,78 +1306,60 @@ export class LuojiLabSyncService implements SyncService {
     }
 
     /**
-     * Sanitizes a string to make it safe for use as a filename
-     * @param name The string to sanitize
-     * @returns A sanitized string with invalid characters replaced with underscores
+     * Where a note belongs under the path template, without extension
+     * @param fields The note's frontmatter, or the part of it the template uses
      */
-    private sanitizeFileName(name: string): string {
-        // Replace invalid characters with underscores
-        let sanitized = name.replace(/[*."\\/<>:|?]/g, '_');
-        
-        // Remove surrounding underscores (often from markdown formatting)
-        sanitized = sanitized.replace(/^_+|_+$/g, '');
-        
-        // Also remove leading and trailing spaces and dots
-        sanitized = sanitized.trim().replace(/^\.+|\.+$/g, '');
-
-        // Limit the length to avoid excessively long filenames
-        // 100 characters should be plenty for most cases
-        if (sanitized.length > 100) {
-            sanitized = sanitized.substring(0, 100);
-        }
-        
-        return sanitized;
+    private getNotePath(fields: Record<string, unknown>): string {
+        const template = this.settings.pathTemplates?.['luojilab'] || LUOJILAB_PROVIDER.pathTemplate;
+        const variables = this.getTemplateVariables(fields);
+        // Untitled notes are named after their ID
+        const relativePath = renderPathTemplate(template, { ...variables, title: variables.title || variables.id });
+        return `${this.settings.syncFolder}/${relativePath}`;
     }
 
-    private getFileName(remoteMemo: RemoteNote, addIdPrefix: boolean = false): string {
-        let fileName = remoteMemo.title?.trim() || '';
-        
-        // We can't use AI title generation here (synchronously) because it's async
-        // We'll just use the existing title or ID
-        if (!fileName || fileName === 'Untitled') {
-            fileName = remoteMemo.id; // Fallback to ID if no title
-        }
-        
-        // Apply sanitization
-        let sanitizedName = this.sanitizeFileName(fileName);
-        
-        // Ensure we have a valid name - if sanitization removed everything, use the ID
-        if (!sanitizedName || sanitizedName.length === 0) {
-            sanitizedName = remoteMemo.id;
-        }
+    public getLocalPath(frontMatter: Record<string, unknown>): string | null {
+        const fields = this.noteTemplate.readFrontMatter(frontMatter);
+        return fields?.remote_id ? `${this.getNotePath(fields)}.md` : null;
+    }
 
-        // Add ID prefix only if requested (e.g., when dealing with potential duplicates)
-        if (addIdPrefix) {
-            // Use the first 6 characters of the ID as a prefix
-            const idPrefix = remoteMemo.id.substring(0, 6);
-            sanitizedName = `${sanitizedName}-${idPrefix}`;
-        }
-        
-        return sanitizedName + ".md";
+    /**
+     * Variables of the path and note templates
+     * @param fields The note's frontmatter, or the part of it the templates use
+     */
+    private getTemplateVariables(fields: Record<string, unknown>): PathTemplateVariables {
+        const title = String(fields.title || '').trim();
+        return {
+            service: 'luojilab',
+            account: this.profile.name,
+            id: String(fields.remote_id ?? ''),
+            title: title !== 'Untitled' ? title : '',
+            tags: Array.isArray(fields.tags) ? fields.tags.map(String) : [],
+            source: String(fields.source || ''),
+            entry_type: String(fields.entry_type || ''),
+            created: parseTemplateDate(fields.created_at),
+            updated: parseTemplateDate(fields.updated_at)
+        };
     }
 
-    private formatNoteContent(remoteMemo: RemoteNote): string {
-        const frontMatter: FrontMatter = {
+    private getFrontMatterFields(remoteMemo: RemoteNote): Record<string, unknown> {
+        return {
             remote_id: remoteMemo.id,
-            note_id: remoteMemo.note_id,
-            title: remoteMemo.title || "",
+            title: remoteMemo.title,
             tags: remoteMemo.tags?.map(tag => tag.name) ?? [],
             source: remoteMemo.source,
             entry_type: remoteMemo.entry_type,
-            note_type: remoteMemo.note_type,
             created_at: remoteMemo.created_at,
-            updated_at: remoteMemo.updated_at,
-            last_synced: Date.now(),
-            sync_status: 'synced'
+            updated_at: remoteMemo.updated_at
         };
-
-        const body = remoteMemo.content || "";
-        return this.serializeToMarkdown(frontMatter, body);
     }
 
-    private formatConflictContent(remoteMemo: RemoteNote, existingFile: TFile): string {
-        // Create a simpler conflict marker without trying to read the existing file
-        const conflictFrontMatter: FrontMatter = {
+    private formatNoteContent(
+        remoteMemo: RemoteNote,
+        body: string = this.getRemoteBody(remoteMemo),
+        syncStatus: FrontMatter['sync_status'] = 'synced',
+        existingNote?: string
+    ): string {
+        const frontMatter: FrontMatter = {
             remote_id: remoteMemo.id,
             note_id: remoteMemo.note_id,
             title: remoteMemo.title || "",
@@ -929,25 +1367,185 @@ export class LuojiLabSyncService implements SyncService {
             source: remoteMemo.source,
             entry_type: remoteMemo.entry_type,
             note_type: remoteMemo.note_type,
+            ...(isVoiceNote(remoteMemo) ? { voice_note: true } : {}),
             created_at: remoteMemo.created_at,
             updated_at: remoteMemo.updated_at,
             last_synced: Date.now(),
-            sync_status: 'conflict'
+            sync_status: syncStatus,
+            content_hash: this.getRemoteContentHash(remoteMemo)
         };
 
-        const conflictBody = `Conflict detected. Please resolve manually.\n\nRemote note ID: ${remoteMemo.id}\n\n${remoteMemo.content || ""}`;
-        return this.serializeToMarkdown(conflictFrontMatter, conflictBody);
+        return this.serializeToMarkdown(frontMatter, body, existingNote);
     }
 
-    private async hasConflict(remoteMemo: RemoteNote, existingFile: TFile): Promise<boolean> {
-        // Read existing file content
-        const existingContent = await this.plugin.app.vault.read(existingFile);
+    /**
+     * Body of a remote note in Markdown, from its rich text when it has any
+     */
+    private getRemoteBody(remoteMemo: RemoteNote): string {
+        return jsonContentToMarkdown(remoteMemo.json_content) ?? (remoteMemo.content || "").trim();
+    }
+
+    /**
+     * Body of a remote note as written to the vault, with its images downloaded
+     */
+    private async getLocalBody(remoteMemo: RemoteNote): Promise<string> {
+        return this.plugin.attachments.localizeLinks('luojilab', remoteMemo.id, this.getRemoteBody(remoteMemo));
+    }
+
+    /**
+     * The recording and sections of a remote voice note, with the recording downloaded
+     * @returns null if it isn't a voice note
+     */
+    private async getVoiceNoteParts(remoteMemo: RemoteNote): Promise<VoiceNoteParts | null> {
+        if (!isVoiceNote(remoteMemo)) {
+            return null;
+        }
         
-        // Extract frontmatter and content
-        const existingFrontMatter = this.parseFrontMatter(existingContent);
-        const existingBody = this.extractNoteContent(existingContent);
+        let audio = '';
+        const recording = getRecording(remoteMemo);
+        if (recording) {
+            const path = await this.plugin.attachments.download({
+                service: 'luojilab',
+                remoteId: recording.url,
+                noteId: remoteMemo.id,
+                url: recording.url
+            }, recording.title, recording.size);
+            audio = path ? this.plugin.attachments.embed(path) : renderAudioPlayer(recording.url);
+        }
+        
+        return {
+            audio,
+            summary: this.getRemoteBody(remoteMemo),
+            transcript: (remoteMemo.transcript || "").trim(),
+            original: (remoteMemo.original_content || "").trim()
+        };
+    }
 
-        // Compare with remote content
-        return existingBody !== (remoteMemo.content || "");
+    /**
+     * Body of a note as written to the vault
+     * @param syncedBody The part that's merged and pushed
+     */
+    private renderLocalBody(voiceNote: VoiceNoteParts | null, syncedBody: string): string {
+        return voiceNote
+            ? renderVoiceNote({ ...voiceNote, summary: syncedBody }, getVoiceNoteSections(this.settings))
+            : syncedBody;
     }
-} 
\ No newline at end of file
+
+    /**
+     * The part of a local body that's merged and pushed: the summary of voice notes, otherwise all of it
+     */
+    private getSyncedBody(frontMatter: FrontMatter | null, body: string): string {
+        if (!frontMatter?.voice_note) {
+            return body;
+        }
+        return parseVoiceNote(body, getVoiceNoteSections(this.settings))?.summary ?? body;
+    }
+
+    /**
+     * What the content hash of a local body is taken of: the body as the server holds it
+     */
+    private getHashBody(frontMatter: FrontMatter | null, body: string): string {
+        const voiceNote = frontMatter?.voice_note ? parseVoiceNote(body, getVoiceNoteSections(this.settings)) : null;
+        if (!voiceNote) {
+            return this.plugin.attachments.restoreLinks('luojilab', body);
+        }
+        return getVoiceNoteHashText(
+            { ...voiceNote, summary: this.plugin.attachments.restoreLinks('luojilab', voiceNote.summary) },
+            getVoiceNoteSections(this.settings)
+        );
+    }
+
+    /**
+     * Hash of a remote note as it would be written to the vault
+     */
+    private getRemoteContentHash(remoteMemo: RemoteNote): string {
+        const body = isVoiceNote(remoteMemo)
+            ? getVoiceNoteHashText({
+                audio: '',
+                summary: this.getRemoteBody(remoteMemo),
+                transcript: remoteMemo.transcript || "",
+                original: remoteMemo.original_content || ""
+            }, getVoiceNoteSections(this.settings))
+            : this.getRemoteBody(remoteMemo);
+        return computeContentHash(body, {
+            title: remoteMemo.title || "",
+            tags: remoteMemo.tags?.map(tag => tag.name) ?? []
+        });
+    }
+} 
+
+export const LUOJILAB_PROVIDER: SyncProvider = {
+    id: 'luojilab',
+    displayName: 'LuojiLab',
+    idKey: 'remote_id',
+    folderSetting: 'syncFolder',
+    pathTemplate: '{{tag}}/{{title}}',
+    optionalKeys: ['note_id', 'source', 'entry_type', 'note_type', 'created_at', 'updated_at'],
+    capabilities: {
+        push: true,
+        delete: true,
+        attachments: true,
+        incremental: true
+    },
+    settings: [
+        {
+            key: 'bearerToken',
+            name: 'Bearer Token',
+            desc: 'Your authentication token for the LuojiLab notes API',
+            type: 'text',
+            placeholder: 'Enter your token',
+            account: true
+        },
+        {
+            key: 'apiBaseUrl',
+            name: 'API Base URL',
+            desc: 'Base URL for the LuojiLab notes API (without trailing slash)',
+            type: 'text',
+            placeholder: 'https://example.com/api',
+            normalize: value => value.replace(/\/$/, ''),
+            account: true
+        },
+        {
+            key: 'syncFolder',
+            name: 'Sync Folder',
+            desc: 'The folder where LuojiLab synced notes will be stored',
+            type: 'text',
+            placeholder: 'notes',
+            account: true
+        },
+        {
+            key: 'noteFetchLimit',
+            name: 'Note Fetch Limit',
+            desc: 'Maximum number of notes to fetch per sync (0 for no limit)',
+            type: 'number',
+            placeholder: '20',
+            min: 0
+        },
+        {
+            key: 'pushRenamedTitles',
+            name: 'Push Renamed Titles',
+            desc: 'When a synced note is renamed, use the new file name as its title on LuojiLab',
+            type: 'toggle'
+        },
+        {
+            key: 'voiceSummaryHeading',
+            name: 'Voice Note Summary Heading',
+            desc: 'Heading of the AI summary in voice notes; the summary is the part of a voice note that syncs both ways',
+            type: 'text',
+            placeholder: 'AI Summary'
+        },
+        {
+            key: 'voiceTranscriptHeading',
+            name: 'Voice Note Transcript Heading',
+            desc: 'Heading of the transcript in voice notes, rewritten from LuojiLab on every change. Leave empty to leave the transcript out',
+            type: 'text'
+        },
+        {
+            key: 'voiceOriginalHeading',
+            name: 'Voice Note Original Text Heading',
+            desc: 'Heading of the original text in voice notes, rewritten from LuojiLab on every change. Leave empty to leave it out',
+            type: 'text'
+        }
+    ],
+    create: (plugin, profile) => new LuojiLabSyncService(plugin, profile)
+};
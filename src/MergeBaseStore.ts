@@ -0,0 +1,107 @@
+import { normalizePath } from 'obsidian';
+import NotesSyncPlugin from './main';
+
+/**
+ * Stores the remote body of each note as it was at the last sync.
+ * This is the common ancestor used for three-way merges when both the local
+ * file and the remote note changed. Kept in its own file in the plugin folder
+ * so large note bodies don't bloat the settings data.
+ */
+export class MergeBaseStore {
+    private plugin: NotesSyncPlugin;
+    private bases: Record<string, string> | null;
+    private loading: Promise<void> | null;
+    private saveTimer: number | null;
+
+    // Writes during a sync are coalesced into one save
+    private static readonly SAVE_DELAY = 1000;
+
+    constructor(plugin: NotesSyncPlugin) {
+        this.plugin = plugin;
+        this.bases = null;
+        this.loading = null;
+        this.saveTimer = null;
+    }
+
+    public async get(service: string, remoteId: string): Promise<string | undefined> {
+        await this.load();
+        return this.bases?.[this.getKey(service, remoteId)];
+    }
+
+    public async set(service: string, remoteId: string, body: string): Promise<void> {
+        if (!remoteId) return;
+
+        await this.load();
+        const key = this.getKey(service, remoteId);
+        if (this.bases && this.bases[key] !== body) {
+            this.bases[key] = body;
+            this.scheduleSave();
+        }
+    }
+
+    public async delete(service: string, remoteId: string): Promise<void> {
+        await this.load();
+        const key = this.getKey(service, remoteId);
+        if (this.bases && key in this.bases) {
+            delete this.bases[key];
+            this.scheduleSave();
+        }
+    }
+
+    /**
+     * Write any pending changes now
+     */
+    public async flush(): Promise<void> {
+        if (this.saveTimer) {
+            window.clearTimeout(this.saveTimer);
+            this.saveTimer = null;
+        }
+        if (!this.bases) return;
+
+        try {
+            await this.plugin.app.vault.adapter.write(this.getFilePath(), JSON.stringify(this.bases));
+        } catch (err) {
+            console.error('Failed to save merge bases:', err);
+        }
+    }
+
+    private scheduleSave(): void {
+        if (this.saveTimer) {
+            window.clearTimeout(this.saveTimer);
+        }
+        this.saveTimer = window.setTimeout(() => {
+            this.saveTimer = null;
+            this.flush();
+        }, MergeBaseStore.SAVE_DELAY);
+    }
+
+    private getKey(service: string, remoteId: string): string {
+        return `${service}:${remoteId}`;
+    }
+
+    private getFilePath(): string {
+        const pluginDir = this.plugin.manifest.dir || `${this.plugin.app.vault.configDir}/plugins/${this.plugin.manifest.id}`;
+        return normalizePath(`${pluginDir}/merge-bases.json`);
+    }
+
+    private async load(): Promise<void> {
+        if (this.bases) return;
+        if (!this.loading) {
+            this.loading = (async () => {
+                const adapter = this.plugin.app.vault.adapter;
+                const filePath = this.getFilePath();
+                try {
+                    if (await adapter.exists(filePath)) {
+                        this.bases = JSON.parse(await adapter.read(filePath)) || {};
+                    } else {
+                        this.bases = {};
+                    }
+                } catch (err) {
+                    console.error('Failed to load merge bases, starting empty:', err);
+                    this.bases = {};
+                }
+            })();
+        }
+        await this.loading;
+    }
+}
@@ -0,0 +1,129 @@
+import { NoteTemplateSettings, NotesSyncSettings, SyncProvider } from './types';
+import { PathTemplateVariables, renderTextTemplate } from './PathTemplate';
+import { keepProtectedRegion, splitProtectedRegion } from './ProtectedRegion';
+
+// Variables of the header and footer, documented in the settings
+export const NOTE_TEMPLATE_VARIABLES = ['service', 'account', 'id', 'title', 'tag', 'tags', 'source', 'entry_type', 'created', 'updated', 'url'];
+
+// The synced body sits between these when a header or footer is written, so
+// neither is ever sent back to the service
+const BODY_START = '%% notes-sync: body %%';
+const BODY_END = '%% notes-sync: end %%';
+
+// Keys the sync itself depends on; they are always written under their own name
+const SYSTEM_KEYS = ['last_synced', 'sync_status', 'content_hash'];
+
+/**
+ * Applies a service's note template: which frontmatter keys are written and
+ * under what names, and the header and footer around the body. Services work
+ * with their own key names; notes are translated on the way in and out.
+ */
+export class NoteTemplate {
+    private settings: NotesSyncSettings;
+    private provider: SyncProvider;
+
+    constructor(settings: NotesSyncSettings, provider: SyncProvider) {
+        this.settings = settings;
+        this.provider = provider;
+    }
+
+    /**
+     * Frontmatter as written to the note. Listed keys come first, in the order
+     * of the template; optional keys that aren't listed are left out.
+     */
+    public renderFrontMatter(fields: Record<string, unknown>): Record<string, unknown> {
+        const names = this.getKeyNames();
+        if (names.size === 0) {
+            return fields;
+        }
+
+        const result: Record<string, unknown> = {};
+        names.forEach((name, key) => {
+            if (fields[key] !== undefined) {
+                result[name] = fields[key];
+            }
+        });
+        for (const key of Object.keys(fields)) {
+            if (!names.has(key) && !this.provider.optionalKeys.includes(key)) {
+                result[key] = fields[key];
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Frontmatter read from a note, with renamed keys under their own names again
+     */
+    public readFrontMatter<T extends Record<string, unknown>>(frontMatter: T | null | undefined): T | null {
+        if (!frontMatter) {
+            return null;
+        }
+
+        const result: Record<string, unknown> = { ...frontMatter };
+        this.getKeyNames().forEach((name, key) => {
+            if (name !== key && name in frontMatter) {
+                result[key] = frontMatter[name];
+                delete result[name];
+            }
+        });
+        return result as T;
+    }
+
+    /**
+     * The name a frontmatter key is written under
+     */
+    public getKeyName(key: string): string {
+        return this.getKeyNames().get(key) ?? key;
+    }
+
+    /**
+     * The note body with the header and footer around it
+     * @param existingNote The note being rewritten, whose protected region is kept below
+     */
+    public renderBody(body: string, variables: PathTemplateVariables, existingNote?: string): string {
+        const { header, footer } = this.getTemplate();
+        if (!header.trim() && !footer.trim()) {
+            return keepProtectedRegion(body, existingNote, this.settings.protectedRegionMarker);
+        }
+
+        const parts = [
+            renderTextTemplate(header, variables).trim(),
+            `${BODY_START}\n${body}\n${BODY_END}`,
+            renderTextTemplate(footer, variables).trim()
+        ];
+        return keepProtectedRegion(parts.filter(part => part).join('\n\n'), existingNote, this.settings.protectedRegionMarker);
+    }
+
+    /**
+     * The synced body of a note, without the header, footer and protected region
+     * @param note The note without its frontmatter
+     */
+    public extractBody(note: string): string {
+        const { content } = splitProtectedRegion(note, this.settings.protectedRegionMarker);
+        const start = content.indexOf(BODY_START);
+        const end = content.lastIndexOf(BODY_END);
+        if (start === -1 || end < start) {
+            return content.trim();
+        }
+        return content.substring(start + BODY_START.length, end).trim();
+    }
+
+    private getTemplate(): NoteTemplateSettings {
+        return this.settings.noteTemplates?.[this.provider.id] ?? { frontMatter: '', header: '', footer: '' };
+    }
+
+    /**
+     * Written name of each key listed in the template, in template order
+     */
+    private getKeyNames(): Map<string, string> {
+        const names = new Map<string, string>();
+        const fixed = [this.provider.idKey, ...SYSTEM_KEYS];
+
+        for (const line of this.getTemplate().frontMatter.split('\n')) {
+            const [key, name] = line.split(':').map(part => part.trim());
+            if (!key || names.has(key)) continue;
+            names.set(key, name && !fixed.includes(key) ? name : key);
+        }
+        return names;
+    }
+}
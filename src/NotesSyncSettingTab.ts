@@ -1,7 +1,9 @@
 import { App, Notice, PluginSettingTab, Setting } from 'obsidian';
 import NotesSyncPlugin from './main';
-import { LlmConfiguration } from './types';
+import { AccountProfile, LlmConfiguration, NoteTemplateSettings, NotesSyncSettings, ProviderSettingField, SyncProvider } from './types';
 import { LlmConfigModal } from './LlmConfigModal';
+import { PATH_TEMPLATE_VARIABLES, renderPathTemplate } from './PathTemplate';
+import { NOTE_TEMPLATE_VARIABLES } from './NoteTemplate';
 import { v4 as uuidv4 } from 'uuid';
 
 export class NotesSyncSettingTab extends PluginSettingTab {
@@ -17,37 +19,17 @@ export class NotesSyncSettingTab extends PluginSettingTab {
 
         containerEl.empty();
 
-        // Sync Service Selection
-        new Setting(containerEl)
-            .setName("Sync Service")
-            .setDesc("Choose which service to sync with")
-            .addDropdown(dropdown => dropdown
-                .addOption("luojilab", "LuojiLab")
-                .addOption("flomo", "Flomo")
-                .setValue(this.plugin.settings.syncService)
-                .onChange(async (value: "luojilab" | "flomo") => {
-                    this.plugin.settings.syncService = value;
-                    await this.plugin.saveSettings();
-                    this.plugin.syncManager.updateSyncService();
-                    this.display();
-                }));
-
         // Common Settings Section
         this.renderCommonSettings(containerEl);
 
         // LLM Settings Section
         this.renderLlmSettings(containerEl);
 
-        // Service-specific Settings
-        if (this.plugin.settings.syncService === 'luojilab') {
-            this.renderLuojiLabSettings(containerEl);
-        } else if (this.plugin.settings.syncService === 'flomo') {
-            this.renderFlomoSettings(containerEl);
+        // One section per sync service; several can be enabled at once
+        for (const provider of this.plugin.providers.getAll()) {
+            this.renderProviderSettings(containerEl, provider);
         }
 
-        // API Test Connection
-        this.renderApiTestConnection(containerEl);
-
         // Sync Status
         this.renderSyncStatus(containerEl);
     }
@@ -56,16 +38,6 @@ export class NotesSyncSettingTab extends PluginSettingTab {
         containerEl.createEl("h3", { text: "Common Settings" });
         
         // Auto Sync Settings
-        new Setting(containerEl)
-            .setName("Auto Sync (Both Directions)")
-            .setDesc("Automatically sync notes in both directions at regular intervals")
-            .addToggle(toggle => toggle
-                .setValue(this.plugin.settings.autoSync)
-                .onChange(async (value) => {
-                    this.plugin.settings.autoSync = value;
-                    await this.plugin.saveSettings();
-                }));
-        
         new Setting(containerEl)
             .setName("Auto Pull (Server → Local)")
             .setDesc("Automatically download notes from server to local vault")
@@ -86,20 +58,6 @@ export class NotesSyncSettingTab extends PluginSettingTab {
                     await this.plugin.saveSettings();
                 }));
 
-        new Setting(containerEl)
-            .setName("Auto Sync Interval")
-            .setDesc("How often to perform automatic sync operations (in minutes)")
-            .addText(text => text
-                .setPlaceholder("30")
-                .setValue(String(this.plugin.settings.autoSyncInterval))
-                .onChange(async (value) => {
-                    const interval = parseInt(value);
-                    if (!isNaN(interval) && interval > 0) {
-                        this.plugin.settings.autoSyncInterval = interval;
-                        await this.plugin.saveSettings();
-                    }
-                }));
-
         // Conflict Resolution
         new Setting(containerEl)
             .setName("Conflict Resolution")
@@ -142,6 +100,119 @@ export class NotesSyncSettingTab extends PluginSettingTab {
                         await this.plugin.saveSettings();
                     }
                 }));
+
+        // Deletion Propagation
+        new Setting(containerEl)
+            .setName("Local Deletions")
+            .setDesc("When a synced note is deleted in Obsidian, also delete it on the server")
+            .addDropdown(dropdown => dropdown
+                .addOption("ask", "Ask me")
+                .addOption("always", "Always delete on server")
+                .addOption("never", "Never delete on server")
+                .setValue(this.plugin.settings.localDeletePolicy)
+                .onChange(async (value: "never" | "ask" | "always") => {
+                    this.plugin.settings.localDeletePolicy = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName("Remote Deletions")
+            .setDesc("When a note was deleted on the server, move the local copy to the trash folder")
+            .addDropdown(dropdown => dropdown
+                .addOption("ask", "Ask me")
+                .addOption("always", "Always move to trash")
+                .addOption("never", "Never (keep local copy)")
+                .setValue(this.plugin.settings.remoteDeletePolicy)
+                .onChange(async (value: "never" | "ask" | "always") => {
+                    this.plugin.settings.remoteDeletePolicy = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName("Trash Folder")
+            .setDesc("Folder that receives local copies of notes deleted on the server")
+            .addText(text => text
+                .setPlaceholder("notes-sync-trash")
+                .setValue(this.plugin.settings.trashFolder)
+                .onChange(async (value) => {
+                    this.plugin.settings.trashFolder = value.trim() || 'notes-sync-trash';
+                    await this.plugin.saveSettings();
+                }));
+
+        // Protected region
+        new Setting(containerEl)
+            .setName("Protected Region Marker")
+            .setDesc("Everything below a line holding only this marker stays local: it's never uploaded and pulls leave it alone. Frontmatter keys you add yourself are always kept. Leave empty to turn the region off")
+            .addText(text => text
+                .setPlaceholder("%% my notes %%")
+                .setValue(this.plugin.settings.protectedRegionMarker)
+                .onChange(async (value) => {
+                    this.plugin.settings.protectedRegionMarker = value.trim();
+                    await this.plugin.saveSettings();
+                }));
+
+        // Sync reports
+        new Setting(containerEl)
+            .setName("Sync Reports Folder")
+            .setDesc("Write a Markdown report of every sync that changed notes or failed to this folder. Keep it outside the sync folders, so reports aren't uploaded. Leave empty to turn reports off; the Sync History panel lists recent syncs either way")
+            .addText(text => text
+                .setPlaceholder("notes-sync-reports")
+                .setValue(this.plugin.settings.syncReportFolder)
+                .onChange(async (value) => {
+                    this.plugin.settings.syncReportFolder = value.trim();
+                    await this.plugin.saveSettings();
+                }));
+
+        // Snapshots for rolling back syncs
+        new Setting(containerEl)
+            .setName("Sync Snapshots to Keep")
+            .setDesc("Before a sync from the server changes, creates or deletes notes, their previous contents are saved so \"Roll Back Last Sync\" can undo it. Snapshots of this many syncs are kept (0 turns snapshots off)")
+            .addText(text => text
+                .setPlaceholder("10")
+                .setValue(String(this.plugin.settings.snapshotRetention))
+                .onChange(async (value) => {
+                    const count = parseInt(value);
+                    if (!isNaN(count) && count >= 0) {
+                        this.plugin.settings.snapshotRetention = count;
+                        await this.plugin.saveSettings();
+                    }
+                }));
+
+        // Attachments
+        new Setting(containerEl)
+            .setName("Download Attachments")
+            .setDesc("Download the images and files of remote notes and embed the local copies")
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.downloadAttachments)
+                .onChange(async (value) => {
+                    this.plugin.settings.downloadAttachments = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName("Attachment Folder")
+            .setDesc("Folder that receives downloaded attachments; each file is stored once")
+            .addText(text => text
+                .setPlaceholder("notes-sync-attachments")
+                .setValue(this.plugin.settings.attachmentFolder)
+                .onChange(async (value) => {
+                    this.plugin.settings.attachmentFolder = value.trim() || 'notes-sync-attachments';
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName("Maximum Attachment Size")
+            .setDesc("Larger files are left on the server (in MB, 0 for no limit)")
+            .addText(text => text
+                .setPlaceholder("20")
+                .setValue(String(this.plugin.settings.maxAttachmentSize))
+                .onChange(async (value) => {
+                    const size = parseFloat(value);
+                    if (!isNaN(size) && size >= 0) {
+                        this.plugin.settings.maxAttachmentSize = size;
+                        await this.plugin.saveSettings();
+                    }
+                }));
     }
 
     private renderLlmSettings(containerEl: HTMLElement): void {
@@ -317,110 +388,249 @@ export class NotesSyncSettingTab extends PluginSettingTab {
         });
     }
 
-    private renderLuojiLabSettings(containerEl: HTMLElement): void {
-        containerEl.createEl("h3", { text: "LuojiLab Settings" });
+    /**
+     * Render the settings a provider declares in its schema
+     */
+    private renderProviderSettings(containerEl: HTMLElement, provider: SyncProvider): void {
+        containerEl.createEl("h3", { text: `${provider.displayName} Settings` });
+        const enabled = this.plugin.settings.enabledServices.includes(provider.id);
         
         new Setting(containerEl)
-            .setName("Bearer Token")
-            .setDesc("Your authentication token for the LuojiLab notes API")
-            .addText(text => text
-                .setPlaceholder("Enter your token")
-                .setValue(this.plugin.settings.bearerToken)
+            .setName(`Sync with ${provider.displayName}`)
+            .setDesc("Enable this service; it can run alongside the others")
+            .addToggle(toggle => toggle
+                .setValue(enabled)
                 .onChange(async (value) => {
-                    this.plugin.settings.bearerToken = value;
+                    const others = this.plugin.settings.enabledServices.filter(id => id !== provider.id);
+                    this.plugin.settings.enabledServices = value ? [...others, provider.id] : others;
                     await this.plugin.saveSettings();
+                    this.display();
                 }));
-
+        
+        if (!enabled) {
+            return;
+        }
+        
+        const schedule = this.plugin.settings.serviceAutoSync[provider.id] ?? { enabled: false, interval: 30 };
+        
         new Setting(containerEl)
-            .setName("API Base URL")
-            .setDesc("Base URL for the LuojiLab notes API (without trailing slash)")
-            .addText(text => text
-                .setPlaceholder("https://example.com/api")
-                .setValue(this.plugin.settings.apiBaseUrl)
+            .setName("Auto Sync (Both Directions)")
+            .setDesc(`Automatically sync ${provider.displayName} in both directions at regular intervals`)
+            .addToggle(toggle => toggle
+                .setValue(schedule.enabled)
                 .onChange(async (value) => {
-                    this.plugin.settings.apiBaseUrl = value.replace(/\/$/, '');
+                    this.plugin.settings.serviceAutoSync[provider.id] = { ...schedule, enabled: value };
+                    schedule.enabled = value;
                     await this.plugin.saveSettings();
                 }));
-
+        
         new Setting(containerEl)
-            .setName("Sync Folder")
-            .setDesc("The folder where LuojiLab synced notes will be stored")
+            .setName("Auto Sync Interval")
+            .setDesc("How often to perform automatic sync operations (in minutes)")
             .addText(text => text
-                .setPlaceholder("notes")
-                .setValue(this.plugin.settings.syncFolder)
+                .setPlaceholder("30")
+                .setValue(String(schedule.interval))
                 .onChange(async (value) => {
-                    this.plugin.settings.syncFolder = value;
-                    await this.plugin.saveSettings();
+                    const interval = parseInt(value);
+                    if (!isNaN(interval) && interval > 0) {
+                        this.plugin.settings.serviceAutoSync[provider.id] = { ...schedule, interval };
+                        schedule.interval = interval;
+                        await this.plugin.saveSettings();
+                    }
                 }));
+        
+        // Settings shared by all accounts of the service
+        for (const field of provider.settings.filter(field => !field.account)) {
+            this.renderProviderField(containerEl, field, this.plugin.settings);
+        }
+        
+        this.renderPathTemplate(containerEl, provider);
+        this.renderNoteTemplate(containerEl, provider);
+        
+        for (const profile of this.plugin.accounts.getProfiles(provider.id)) {
+            this.renderAccountSettings(containerEl, provider, profile);
+        }
+        
+        new Setting(containerEl)
+            .setName("Add Account")
+            .setDesc(`Sync another ${provider.displayName} account into its own folder`)
+            .addButton(button => button
+                .setButtonText("Add Account")
+                .onClick(async () => {
+                    const count = this.plugin.accounts.getProfiles(provider.id).length;
+                    await this.plugin.accounts.add(provider.id, `Account ${count + 1}`);
+                    this.display();
+                }));
+    }
 
+    private renderPathTemplate(containerEl: HTMLElement, provider: SyncProvider): void {
+        const setting = new Setting(containerEl)
+            .setName("Path Template")
+            .setDesc(`Where new notes go inside the sync folder, without .md. Variables: ${PATH_TEMPLATE_VARIABLES.map(name => `{{${name}}}`).join(', ')}. Dates take a format such as {{created:YYYY/MM}}, text a length such as {{id:6}}, and filters such as {{title|slug}}. Run "Re-layout Synced Notes" to move existing notes.`);
+        const previewEl = setting.descEl.createDiv({ cls: "notes-sync-path-preview" });
+        
+        const showPreview = (template: string) => {
+            const sample = renderPathTemplate(template || provider.pathTemplate, {
+                service: provider.id,
+                account: this.plugin.accounts.getProfiles(provider.id)[0]?.name ?? 'Default',
+                id: '6f1c2a9e4b7d',
+                title: 'Meeting notes',
+                tags: ['work/projects'],
+                source: provider.id,
+                entry_type: 'note',
+                created: new Date(),
+                updated: new Date()
+            });
+            previewEl.setText(`Preview: ${sample}.md`);
+        };
+        
+        const template = this.plugin.settings.pathTemplates[provider.id] ?? '';
+        setting.addText(text => text
+            .setPlaceholder(provider.pathTemplate)
+            .setValue(template)
+            .onChange(async (value) => {
+                showPreview(value.trim());
+                this.plugin.settings.pathTemplates[provider.id] = value.trim();
+                await this.plugin.saveSettings();
+            }));
+        showPreview(template);
+    }
+
+    private renderNoteTemplate(containerEl: HTMLElement, provider: SyncProvider): void {
+        const template = this.plugin.settings.noteTemplates[provider.id] ?? { frontMatter: '', header: '', footer: '' };
+        const save = async (changes: Partial<NoteTemplateSettings>) => {
+            Object.assign(template, changes);
+            this.plugin.settings.noteTemplates[provider.id] = template;
+            await this.plugin.saveSettings();
+        };
+        
         new Setting(containerEl)
-            .setName("Note Fetch Limit")
-            .setDesc("Maximum number of notes to fetch per sync (0 for no limit)")
-            .addText(text => text
-                .setPlaceholder("20")
-                .setValue(String(this.plugin.settings.noteFetchLimit))
+            .setName("Frontmatter Keys")
+            .setDesc(`Keys written to synced notes, one per line, as "key" or "key: name" to rename it. Leave empty to write every key. Keys that may be left out: ${provider.optionalKeys.join(', ')}; the others are always written.`)
+            .addTextArea(text => text
+                .setPlaceholder("title\ncreated_at: created")
+                .setValue(template.frontMatter)
                 .onChange(async (value) => {
-                    const limit = parseInt(value);
-                    if (!isNaN(limit) && limit >= 0) {
-                        this.plugin.settings.noteFetchLimit = limit;
-                        await this.plugin.saveSettings();
-                    }
+                    await save({ frontMatter: value });
+                }));
+        
+        const variables = `Variables: ${NOTE_TEMPLATE_VARIABLES.map(name => `{{${name}}}`).join(', ')}`;
+        new Setting(containerEl)
+            .setName("Note Header")
+            .setDesc(`Written above the body of synced notes and never sent to ${provider.displayName}. ${variables}`)
+            .addTextArea(text => text
+                .setPlaceholder("[[{{created:YYYY-MM-DD}}]] {{tags}}")
+                .setValue(template.header)
+                .onChange(async (value) => {
+                    await save({ header: value });
+                }));
+        
+        new Setting(containerEl)
+            .setName("Note Footer")
+            .setDesc(`Written below the body of synced notes and never sent to ${provider.displayName}. ${variables}`)
+            .addTextArea(text => text
+                .setPlaceholder("[Open in {{service}}]({{url}})")
+                .setValue(template.footer)
+                .onChange(async (value) => {
+                    await save({ footer: value });
                 }));
     }
 
-    private renderFlomoSettings(containerEl: HTMLElement): void {
-        containerEl.createEl("h3", { text: "Flomo Settings" });
+    private renderAccountSettings(containerEl: HTMLElement, provider: SyncProvider, profile: AccountProfile): void {
+        containerEl.createEl("h4", { text: profile.name });
         
         new Setting(containerEl)
-            .setName("Flomo API Token")
-            .setDesc("Your authentication token for the Flomo API")
+            .setName("Account Name")
+            .setDesc("Shown in the sidebar when choosing which accounts sync")
             .addText(text => text
-                .setPlaceholder("Enter your Flomo token")
-                .setValue(this.plugin.settings.flomoApiToken)
+                .setValue(profile.name)
                 .onChange(async (value) => {
-                    this.plugin.settings.flomoApiToken = value;
+                    if (value.trim()) {
+                        profile.name = value.trim();
+                        await this.plugin.saveSettings();
+                    }
+                }))
+            .addToggle(toggle => toggle
+                .setTooltip("Sync this account")
+                .setValue(profile.enabled)
+                .onChange(async (value) => {
+                    profile.enabled = value;
                     await this.plugin.saveSettings();
+                }))
+            .addExtraButton(button => button
+                .setIcon("trash")
+                .setTooltip("Remove account")
+                .setDisabled(this.plugin.accounts.getProfiles(provider.id).length <= 1)
+                .onClick(async () => {
+                    try {
+                        await this.plugin.accounts.remove(profile.id);
+                        this.display();
+                    } catch (err) {
+                        new Notice(err.message);
+                    }
                 }));
+        
+        // Account fields are stored on the profile
+        const settings = this.plugin.accounts.getSettings(profile);
+        for (const field of provider.settings.filter(field => field.account)) {
+            this.renderProviderField(containerEl, field, settings);
+        }
+        
+        this.renderApiTestConnection(containerEl, provider, profile);
+    }
 
-        new Setting(containerEl)
-            .setName("Flomo Sync Directory")
-            .setDesc("The folder where Flomo synced notes will be stored")
-            .addText(text => text
-                .setPlaceholder("flomo-notes")
-                .setValue(this.plugin.settings.flomoSyncDirectory)
+    private renderProviderField(containerEl: HTMLElement, field: ProviderSettingField, target: NotesSyncSettings): void {
+        const settings = target as unknown as Record<string, unknown>;
+        const setting = new Setting(containerEl)
+            .setName(field.name)
+            .setDesc(field.desc);
+        
+        if (field.type === 'toggle') {
+            setting.addToggle(toggle => toggle
+                .setValue(Boolean(settings[field.key]))
                 .onChange(async (value) => {
-                    this.plugin.settings.flomoSyncDirectory = value;
+                    settings[field.key] = value;
                     await this.plugin.saveSettings();
                 }));
-
-        new Setting(containerEl)
-            .setName("Flomo Fetch Limit")
-            .setDesc("Maximum number of memos to fetch per sync")
-            .addText(text => text
-                .setPlaceholder("200")
-                .setValue(String(this.plugin.settings.flomoFetchLimit))
+        } else if (field.type === 'dropdown') {
+            setting.addDropdown(dropdown => dropdown
+                .addOptions(field.options || {})
+                .setValue(String(settings[field.key] ?? ''))
+                .onChange(async (value) => {
+                    settings[field.key] = value;
+                    await this.plugin.saveSettings();
+                }));
+        } else if (field.type === 'number') {
+            setting.addText(text => text
+                .setPlaceholder(field.placeholder || '')
+                .setValue(String(settings[field.key] ?? ''))
                 .onChange(async (value) => {
-                    const limit = parseInt(value);
-                    if (!isNaN(limit) && limit > 0) {
-                        this.plugin.settings.flomoFetchLimit = limit;
+                    const number = parseInt(value);
+                    if (!isNaN(number) && number >= (field.min ?? 0)) {
+                        settings[field.key] = number;
                         await this.plugin.saveSettings();
                     }
                 }));
-
-        new Setting(containerEl)
-            .setName("Flomo Fetch Order")
-            .setDesc("Order in which to fetch Flomo memos")
-            .addDropdown(dropdown => dropdown
-                .addOption("latest", "Latest First")
-                .addOption("oldest", "Oldest First")
-                .setValue(this.plugin.settings.flomoFetchOrder)
-                .onChange(async (value: "latest" | "oldest") => {
-                    this.plugin.settings.flomoFetchOrder = value;
+        } else if (field.type === 'textarea') {
+            setting.addTextArea(text => text
+                .setPlaceholder(field.placeholder || '')
+                .setValue(String(settings[field.key] ?? ''))
+                .onChange(async (value) => {
+                    settings[field.key] = value;
                     await this.plugin.saveSettings();
                 }));
+        } else {
+            setting.addText(text => text
+                .setPlaceholder(field.placeholder || '')
+                .setValue(String(settings[field.key] ?? ''))
+                .onChange(async (value) => {
+                    settings[field.key] = field.normalize ? field.normalize(value) : value;
+                    await this.plugin.saveSettings();
+                }));
+        }
     }
 
-    private renderApiTestConnection(containerEl: HTMLElement): void {
+    private renderApiTestConnection(containerEl: HTMLElement, provider: SyncProvider, profile: AccountProfile): void {
         new Setting(containerEl)
             .setName("API Connection")
             .setDesc("Test your API connection")
@@ -431,7 +641,7 @@ export class NotesSyncSettingTab extends PluginSettingTab {
                     button.setDisabled(true);
                     
                     try {
-                        const result = await this.plugin.syncManager.testApiConnection();
+                        const result = await this.plugin.syncManager.testApiConnection(provider.id, profile.id);
                         if (result.success) {
                             new Notice(result.message);
                         } else {
@@ -447,34 +657,37 @@ export class NotesSyncSettingTab extends PluginSettingTab {
     }
 
     private renderSyncStatus(containerEl: HTMLElement): void {
-        const statusInfo = this.plugin.syncManager.getSyncStatus();
         const statusContainer = containerEl.createDiv('sync-status');
         statusContainer.createEl('h3', { text: 'Sync Status' });
         
-        if (statusInfo.inProgress) {
-            statusContainer.createEl('p', { text: 'Sync in progress...' });
-        } else if (statusInfo.lastSync > 0) {
-            const lastSyncDate = new Date(statusInfo.lastSync).toLocaleString();
-            statusContainer.createEl('p', { text: `Last synced: ${lastSyncDate}` });
-        }
+        for (const { id, name, status: statusInfo } of this.plugin.syncManager.getAllSyncStatuses()) {
+            if (statusInfo.inProgress) {
+                statusContainer.createEl('p', { text: `${name}: sync in progress...` });
+            } else if (statusInfo.lastSync > 0) {
+                const lastSyncDate = new Date(statusInfo.lastSync).toLocaleString();
+                statusContainer.createEl('p', { text: `${name}: last synced ${lastSyncDate}` });
+            } else {
+                statusContainer.createEl('p', { text: `${name}: not synced yet` });
+            }
 
-        if (statusInfo.errors.length > 0) {
-            const errorList = statusContainer.createEl('div', { cls: 'sync-errors' });
-            errorList.createEl('h4', { text: 'Recent Errors' });
-            const ul = errorList.createEl('ul');
-            statusInfo.errors.slice(-5).forEach(error => {
-                const li = ul.createEl('li');
-                li.createEl('strong', { text: new Date(error.timestamp).toLocaleString() });
-                li.createEl('span', { text: `: ${error.error} (${error.file})` });
-            });
+            if (statusInfo.errors.length > 0) {
+                const errorList = statusContainer.createEl('div', { cls: 'sync-errors' });
+                errorList.createEl('h4', { text: `Recent ${name} Errors` });
+                const ul = errorList.createEl('ul');
+                statusInfo.errors.slice(-5).forEach(error => {
+                    const li = ul.createEl('li');
+                    li.createEl('strong', { text: new Date(error.timestamp).toLocaleString() });
+                    li.createEl('span', { text: `: ${error.error} (${error.file})` });
+                });
 
-            new Setting(statusContainer)
-                .addButton(button => button
-                    .setButtonText('Clear Errors')
-                    .onClick(() => {
-                        this.plugin.syncManager.clearErrors();
-                        this.display();
-                    }));
+                new Setting(statusContainer)
+                    .addButton(button => button
+                        .setButtonText('Clear Errors')
+                        .onClick(() => {
+                            this.plugin.syncManager.clearErrors(id);
+                            this.display();
+                        }));
+            }
         }
     }
-} 
\ No newline at end of file
+}
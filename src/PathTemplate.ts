@@ -0,0 +1,188 @@
+/**
+ * Path and text templates for synced notes.
+ *
+ * A template is a path relative to the sync folder, without the `.md`
+ * extension, e.g. `{{created:YYYY}}/{{created:MM}}/{{title|slug}}-{{id:6}}`.
+ * Placeholders are `{{name}}`, optionally followed by `:argument` and any
+ * number of `|filter`s:
+ * - Dates (`created`, `updated`) take a format made of YYYY, YY, MM, DD, HH, mm and ss
+ * - Text values take a maximum length, e.g. `{{id:6}}`
+ * - Filters are `slug`, `lower` and `upper`
+ * `{{tag}}` is the first tag and keeps the nesting of tags as folders; empty
+ * folders are dropped from the result. Text templates, used around the body
+ * of a note, render `{{tags}}` as a line of #tags.
+ */
+
+export interface PathTemplateVariables {
+    service: string;
+    account: string;
+    id: string;
+    title: string;
+    tags: string[];
+    source: string;
+    entry_type: string;
+    created?: Date;
+    updated?: Date;
+    url?: string;                   // Link to the note on the service, if it has one
+}
+
+// Documented in the settings next to the template field
+export const PATH_TEMPLATE_VARIABLES = ['service', 'account', 'id', 'title', 'tag', 'tags', 'source', 'entry_type', 'created', 'updated'];
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([a-z_]+)(?::([^}|]*))?((?:\|[a-z]+)*)\s*\}\}/g;
+
+/**
+ * Render a template to a vault path relative to the sync folder, without extension
+ */
+export function renderPathTemplate(template: string, variables: PathTemplateVariables): string {
+    const segments: string[] = [];
+
+    for (const segment of template.split('/')) {
+        // {{tag}} may expand to several folders
+        const rendered = segment.replace(PLACEHOLDER_PATTERN, (_match, name: string, arg: string | undefined, filters: string) => {
+            const value = applyFilters(getValue(name, arg, variables), filters);
+            return name === 'tag'
+                ? value.split('/').map(part => sanitizeFileName(part)).join('/')
+                : sanitizeFileName(value);
+        });
+
+        for (const part of rendered.split('/')) {
+            const cleaned = part.trim().replace(/^[-_ ]+|[-_ ]+$/g, '');
+            if (cleaned) {
+                segments.push(cleaned);
+            }
+        }
+    }
+
+    // The file name itself must not be empty
+    if (segments.length === 0) {
+        segments.push(sanitizeFileName(variables.id));
+    }
+    return segments.join('/');
+}
+
+/**
+ * Render a template as plain text, e.g. a header written above a note
+ */
+export function renderTextTemplate(template: string, variables: PathTemplateVariables): string {
+    return template.replace(PLACEHOLDER_PATTERN, (_match, name: string, arg: string | undefined, filters: string) => {
+        const value = name === 'tags'
+            ? variables.tags.map(tag => `#${tag}`).join(' ')
+            : getValue(name, arg, variables);
+        return applyFilters(value, filters);
+    });
+}
+
+/**
+ * Pick a free path for a new note: the rendered path, then with part of the
+ * remote ID appended, then with a timestamp as a last resort
+ * @param basePath Path without extension
+ */
+export function getAvailablePath(basePath: string, id: string, exists: (path: string) => boolean): string {
+    const candidates = [
+        `${basePath}.md`,
+        `${basePath}-${id.substring(0, 6)}.md`,
+        `${basePath}-${Date.now()}.md`
+    ];
+    return candidates.find(candidate => !exists(candidate)) ?? candidates[candidates.length - 1];
+}
+
+/**
+ * Make a string safe for use as a file or folder name
+ */
+export function sanitizeFileName(name: string): string {
+    // Replace invalid characters with underscores
+    let sanitized = name.replace(/[*."\\/<>:|?]/g, '_');
+
+    // Remove surrounding underscores (often from markdown formatting)
+    sanitized = sanitized.replace(/^_+|_+$/g, '');
+
+    // Also remove leading and trailing spaces and dots
+    sanitized = sanitized.trim().replace(/^\.+|\.+$/g, '');
+
+    // Limit the length to avoid excessively long filenames
+    if (sanitized.length > 100) {
+        sanitized = sanitized.substring(0, 100);
+    }
+
+    return sanitized;
+}
+
+/**
+ * Parse the dates found in frontmatter: ISO strings, or Unix timestamps in seconds or milliseconds
+ */
+export function parseTemplateDate(value: unknown): Date | undefined {
+    if (value === undefined || value === null || value === '') return undefined;
+
+    const number = Number(value);
+    const date = isNaN(number)
+        ? new Date(String(value))
+        : new Date(number < 1e12 ? number * 1000 : number);
+    return isNaN(date.getTime()) ? undefined : date;
+}
+
+function getValue(name: string, arg: string | undefined, variables: PathTemplateVariables): string {
+    switch (name) {
+        case 'created':
+        case 'updated': {
+            const date = variables[name];
+            return date ? formatDate(date, arg || 'YYYY-MM-DD') : '';
+        }
+        case 'tag':
+            return truncate(variables.tags[0] || '', arg);
+        case 'tags':
+            return truncate(variables.tags.map(tag => tag.replace(/\//g, '-')).join('-'), arg);
+        case 'service':
+        case 'account':
+        case 'id':
+        case 'title':
+        case 'source':
+        case 'entry_type':
+        case 'url':
+            return truncate(variables[name] || '', arg);
+        default:
+            // Leave unknown placeholders visible so the preview shows the mistake
+            return name;
+    }
+}
+
+function truncate(value: string, arg: string | undefined): string {
+    const length = arg ? parseInt(arg) : NaN;
+    return !isNaN(length) && length > 0 ? value.substring(0, length) : value;
+}
+
+function applyFilters(value: string, filters: string): string {
+    for (const filter of filters.split('|').filter(f => f)) {
+        value = applyFilter(filter, value);
+    }
+    return value;
+}
+
+function applyFilter(filter: string, value: string): string {
+    switch (filter) {
+        case 'slug':
+            return value.toLowerCase().trim()
+                .replace(/[^\p{L}\p{N}/]+/gu, '-')
+                .replace(/^-+|-+$/g, '');
+        case 'lower':
+            return value.toLowerCase();
+        case 'upper':
+            return value.toUpperCase();
+        default:
+            return value;
+    }
+}
+
+function formatDate(date: Date, format: string): string {
+    const pad = (value: number) => ('0' + value).slice(-2);
+    const tokens: Record<string, string> = {
+        YYYY: String(date.getFullYear()),
+        YY: String(date.getFullYear()).substring(2),
+        MM: pad(date.getMonth() + 1),
+        DD: pad(date.getDate()),
+        HH: pad(date.getHours()),
+        mm: pad(date.getMinutes()),
+        ss: pad(date.getSeconds())
+    };
+    return format.replace(/YYYY|YY|MM|DD|HH|mm|ss/g, token => tokens[token]);
+}
@@ -0,0 +1,35 @@
+/**
+ * The protected region of a note: everything from a marker line, such as
+ * `%% my notes %%`, to the end of the note. It belongs to the vault alone:
+ * it's never sent to a service, and pulls write the remote copy above it
+ * without touching it.
+ */
+
+/**
+ * Split a note at the marker line
+ * @returns The content above the marker, and the region from the marker on ('' if there is none)
+ */
+export function splitProtectedRegion(content: string, marker: string): { content: string; region: string } {
+    if (!marker.trim()) {
+        return { content, region: '' };
+    }
+
+    const lines = content.split('\n');
+    const index = lines.findIndex(line => line.trim() === marker.trim());
+    if (index === -1) {
+        return { content, region: '' };
+    }
+    return {
+        content: lines.slice(0, index).join('\n'),
+        region: lines.slice(index).join('\n').trim()
+    };
+}
+
+/**
+ * Put the protected region of the note being rewritten below its new content
+ * @param existingNote The note as it is now, if it exists
+ */
+export function keepProtectedRegion(content: string, existingNote: string | undefined, marker: string): string {
+    const { region } = splitProtectedRegion(existingNote ?? '', marker);
+    return region ? `${content.trimEnd()}\n\n${region}\n` : content;
+}
@@ -0,0 +1,105 @@
+import { TAbstractFile, TFile } from 'obsidian';
+import NotesSyncPlugin from './main';
+import { NoteTemplate } from './NoteTemplate';
+import { SyncProvider } from './types';
+
+/**
+ * Keeps synced notes linked to their remote copy when they are renamed or
+ * moved, so the next pull updates the moved file instead of creating a new one.
+ */
+export class RenameTracker {
+    private plugin: NotesSyncPlugin;
+    private layoutMoves: Set<string>;     // Paths moved by the plugin rather than the user
+
+    constructor(plugin: NotesSyncPlugin) {
+        this.plugin = plugin;
+        this.layoutMoves = new Set();
+    }
+
+    /**
+     * Mark an upcoming move as a change of layout, whose new file name isn't a
+     * new title
+     */
+    public expectLayoutMove(newPath: string): void {
+        this.layoutMoves.add(newPath);
+    }
+
+    public register(): void {
+        this.plugin.registerEvent(
+            this.plugin.app.vault.on('rename', (file: TAbstractFile, oldPath: string) => {
+                if (file instanceof TFile && file.extension === 'md') {
+                    this.onRename(file, oldPath).catch(err => {
+                        console.error(`Failed to track rename of ${oldPath}:`, err);
+                    });
+                }
+            })
+        );
+    }
+
+    private async onRename(file: TFile, oldPath: string): Promise<void> {
+        const frontMatter = this.plugin.app.metadataCache.getFileCache(file)?.frontmatter;
+
+        const match = this.plugin.providers.findByFrontMatter(frontMatter);
+        if (!match) return;
+
+        const service = match.provider.id;
+        const remoteId = match.remoteId;
+
+        // The sync state store follows indexed paths itself; this covers notes it
+        // didn't know about yet
+        const entry = await this.plugin.syncState.get(service, remoteId);
+        if (!entry || entry.path !== file.path) {
+            await this.plugin.syncState.set({
+                service,
+                remoteId,
+                path: file.path,
+                hash: entry?.hash ?? (frontMatter?.content_hash ? String(frontMatter.content_hash) : undefined),
+                lastSynced: entry?.lastSynced ?? (Number(frontMatter?.last_synced) || 0)
+            });
+        }
+
+        // Queued uploads refer to the note by path
+        let queueChanged = false;
+        for (const item of this.plugin.settings.syncQueue) {
+            if (item.path === oldPath) {
+                item.path = file.path;
+                queueChanged = true;
+            }
+        }
+        if (queueChanged) {
+            await this.plugin.saveSyncState();
+        }
+
+        console.log(`Synced note ${oldPath} moved to ${file.path}`);
+
+        const layoutMove = this.layoutMoves.delete(file.path);
+        if (!layoutMove && service === 'luojilab' && this.plugin.settings.pushRenamedTitles && this.getBaseName(oldPath) !== file.basename) {
+            await this.pushTitle(file, remoteId, match.provider);
+        }
+    }
+
+    /**
+     * Use the new file name as the note's title. The title is part of the
+     * content hash, so the note is uploaded by the queue or the next push.
+     */
+    private async pushTitle(file: TFile, remoteId: string, provider: SyncProvider): Promise<void> {
+        // The note template may write the title under another name
+        const titleKey = new NoteTemplate(this.plugin.settings, provider).getKeyName('title');
+        await this.plugin.app.fileManager.processFrontMatter(file, (frontMatter: Record<string, unknown>) => {
+            frontMatter[titleKey] = file.basename;
+        });
+
+        await this.plugin.syncQueue.enqueue({
+            service: 'luojilab',
+            profileId: this.plugin.accounts.findByPath('luojilab', file.path).id,
+            type: 'upload',
+            path: file.path,
+            remoteId
+        });
+        this.plugin.syncManager.processQueue();
+    }
+
+    private getBaseName(path: string): string {
+        return path.substring(path.lastIndexOf('/') + 1).replace(/\.md$/, '');
+    }
+}
@@ -0,0 +1,60 @@
+import { describe, it } from 'node:test';
+import { strict as assert } from 'node:assert';
+import NotesSyncPlugin from './main';
+import { SyncCursorStore } from './SyncCursorStore';
+import { AccountProfile, NotesSyncSettings, SyncProviderId } from './types';
+
+function createPlugin(settings: Record<string, unknown>): NotesSyncPlugin {
+    return { settings: settings as unknown as NotesSyncSettings, saveSyncState: async () => {} } as unknown as NotesSyncPlugin;
+}
+
+function profile(service: SyncProviderId, settings: Record<string, unknown> = {}): AccountProfile {
+    return { id: `${service}-default`, service, name: 'Default', enabled: true, settings };
+}
+
+describe('SyncCursorStore', () => {
+    describe('migrating the cursors of older versions', () => {
+        it('gives the shared cursor only to the accounts of the service that wrote it', () => {
+            const plugin = createPlugin({
+                syncService: 'luojilab',
+                lastSyncId: 'note-9',
+                lastSyncTime: 1000,
+                accounts: [profile('luojilab'), profile('flomo')]
+            });
+            const cursors = new SyncCursorStore(plugin);
+
+            assert.deepEqual(cursors.get('luojilab-default'), { pullCursor: 'note-9', lastPull: 1000, lastPush: 1000, lastFullSync: 0 });
+            assert.deepEqual(cursors.get('flomo-default'), { pullCursor: '', lastPull: 0, lastPush: 0, lastFullSync: 0 });
+            assert.equal('lastSyncId' in plugin.settings, false);
+            assert.equal('lastSyncTime' in plugin.settings, false);
+        });
+
+        it('keeps the note ID cursor for LuojiLab when Flomo wrote the shared sync time', () => {
+            const cursors = new SyncCursorStore(createPlugin({
+                syncService: 'flomo',
+                lastSyncId: 'note-9',
+                lastSyncTime: 1000,
+                accounts: [profile('luojilab'), profile('flomo')]
+            }));
+
+            assert.deepEqual(cursors.get('luojilab-default'), { pullCursor: 'note-9', lastPull: 0, lastPush: 0, lastFullSync: 0 });
+            assert.deepEqual(cursors.get('flomo-default'), { pullCursor: '', lastPull: 1000, lastPush: 1000, lastFullSync: 0 });
+        });
+
+        it('takes the cursors kept per account over the shared ones', () => {
+            const luojilab = profile('luojilab', { lastSyncId: 'note-3', lastSyncTime: 3000 });
+            const flomo = profile('flomo', { lastSyncId: 'memo-5', lastSyncTime: 5000 });
+            const cursors = new SyncCursorStore(createPlugin({
+                syncService: 'luojilab',
+                lastSyncId: 'note-9',
+                lastSyncTime: 1000,
+                accounts: [luojilab, flomo]
+            }));
+
+            assert.deepEqual(cursors.get('luojilab-default'), { pullCursor: 'note-3', lastPull: 3000, lastPush: 3000, lastFullSync: 0 });
+            assert.deepEqual(cursors.get('flomo-default'), { pullCursor: '', lastPull: 5000, lastPush: 5000, lastFullSync: 0 });
+            assert.deepEqual(luojilab.settings, {});
+            assert.deepEqual(flomo.settings, {});
+        });
+    });
+});
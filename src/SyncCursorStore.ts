@@ -0,0 +1,76 @@
+import NotesSyncPlugin from './main';
+import { SyncCursor } from './types';
+
+/**
+ * Incremental sync cursors, one per account. Pulls and pushes are tracked
+ * separately, so pushing one service never moves the point another service
+ * (or the next pull of the same service) fetches from.
+ */
+export class SyncCursorStore {
+    private plugin: NotesSyncPlugin;
+
+    constructor(plugin: NotesSyncPlugin) {
+        this.plugin = plugin;
+
+        if (!this.plugin.settings.syncCursors) {
+            this.plugin.settings.syncCursors = {};
+        }
+        this.migrate();
+    }
+
+    /**
+     * The cursor of an account; an account that never synced starts at zero
+     */
+    public get(profileId: string): SyncCursor {
+        return this.plugin.settings.syncCursors[profileId] ?? {
+            pullCursor: '',
+            lastPull: 0,
+            lastPush: 0,
+            lastFullSync: 0
+        };
+    }
+
+    public async update(profileId: string, changes: Partial<SyncCursor>): Promise<void> {
+        this.plugin.settings.syncCursors[profileId] = { ...this.get(profileId), ...changes };
+        await this.plugin.saveSyncState();
+    }
+
+    /**
+     * Forget the cursor of a removed account
+     */
+    public remove(profileId: string): void {
+        delete this.plugin.settings.syncCursors[profileId];
+    }
+
+    /**
+     * Older versions kept a single lastSyncId/lastSyncTime pair, first shared by
+     * all services and then per account. Both pulls and pushes used it, so it
+     * becomes the starting point of both directions, but only for the service
+     * that wrote it: lastSyncId was only ever a LuojiLab cursor, and the shared
+     * lastSyncTime was written by the service that was active back then.
+     */
+    private migrate(): void {
+        const legacy = this.plugin.settings as unknown as Record<string, unknown>;
+
+        for (const profile of this.plugin.settings.accounts) {
+            const shared = profile.service === this.plugin.settings.syncService;
+            const lastSyncId = profile.service === 'luojilab' ? profile.settings.lastSyncId ?? legacy.lastSyncId : undefined;
+            const lastSyncTime = profile.settings.lastSyncTime ?? (shared ? legacy.lastSyncTime : undefined);
+            delete profile.settings.lastSyncId;
+            delete profile.settings.lastSyncTime;
+
+            if (this.plugin.settings.syncCursors[profile.id] || (!lastSyncId && !lastSyncTime)) {
+                continue;
+            }
+            this.plugin.settings.syncCursors[profile.id] = {
+                pullCursor: lastSyncId ? String(lastSyncId) : '',
+                lastPull: Number(lastSyncTime) || 0,
+                lastPush: Number(lastSyncTime) || 0,
+                lastFullSync: 0
+            };
+        }
+
+        delete legacy.lastSyncId;
+        delete legacy.lastSyncTime;
+    }
+}
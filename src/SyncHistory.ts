@@ -0,0 +1,206 @@
+import { normalizePath } from 'obsidian';
+import NotesSyncPlugin from './main';
+import { AccountProfile, SyncOptions, SyncProviderId, SyncRun, SyncRunAction, SyncTrigger } from './types';
+import { stringifyFrontMatter } from './Frontmatter';
+import { sanitizeFileName } from './PathTemplate';
+
+// How the results of pushFile() are recorded
+export const PUSH_ACTIONS: Record<'created' | 'updated' | 'skipped', SyncRunAction> = {
+    created: 'create',
+    updated: 'update',
+    skipped: 'skip'
+};
+
+const ACTION_LABELS: Record<SyncRunAction, string> = {
+    create: 'created',
+    update: 'updated',
+    conflict: 'conflicts',
+    delete: 'deleted',
+    skip: 'skipped',
+    error: 'errors'
+};
+
+export function getSyncTrigger(options?: SyncOptions): SyncTrigger {
+    if (options?.isAutoSync) return 'auto';
+    return options?.isFullSync ? 'full' : 'manual';
+}
+
+/**
+ * Summary of a run's counts, e.g. "2 created, 1 updated, 5 skipped"
+ */
+export function formatRunCounts(run: SyncRun): string {
+    const parts = (Object.keys(ACTION_LABELS) as SyncRunAction[])
+        .filter(action => run.counts[action] > 0)
+        .map(action => `${run.counts[action]} ${ACTION_LABELS[action]}`);
+    return parts.join(', ') || 'nothing to sync';
+}
+
+/**
+ * Journal of sync runs: when each ran, what started it and what it did to
+ * every note. Kept in its own file in the plugin folder, up to the newest
+ * MAX_RUNS runs; runs that changed nothing are dropped first. Runs that
+ * changed something can also be written to the vault as report notes.
+ */
+export class SyncHistory {
+    private plugin: NotesSyncPlugin;
+    private runs: SyncRun[] | null;
+    private loading: Promise<void> | null;
+
+    private static readonly MAX_RUNS = 100;
+
+    constructor(plugin: NotesSyncPlugin) {
+        this.plugin = plugin;
+        this.runs = null;
+        this.loading = null;
+    }
+
+    /**
+     * Start recording a run. It's only kept once it's finished.
+     */
+    public start(service: SyncProviderId, profile: AccountProfile, direction: SyncRun['direction'], trigger: SyncTrigger): SyncRun {
+        const now = Date.now();
+        return {
+            id: `${now}-${Math.random().toString(36).substring(2, 8)}`,
+            service,
+            profileId: profile.id,
+            account: profile.name,
+            direction,
+            trigger,
+            startedAt: now,
+            finishedAt: 0,
+            status: 'completed',
+            counts: { create: 0, update: 0, conflict: 0, delete: 0, skip: 0, error: 0 },
+            notes: []
+        };
+    }
+
+    /**
+     * Record what a run did to a note
+     */
+    public record(run: SyncRun, action: SyncRunAction, path: string, title: string, detail?: string): void {
+        run.counts[action]++;
+        if (action !== 'skip') {
+            run.notes.push({ action, path, title, ...(detail ? { detail } : {}) });
+        }
+    }
+
+    /**
+     * Add a finished run to the journal, and write its report
+     */
+    public async finish(run: SyncRun, status: SyncRun['status'], error?: string): Promise<void> {
+        run.finishedAt = Date.now();
+        run.status = status;
+        if (error) {
+            run.error = error;
+        }
+
+        await this.load();
+        if (!this.runs) return;
+        this.runs.push(run);
+        while (this.runs.length > SyncHistory.MAX_RUNS) {
+            const idle = this.runs.findIndex(kept => kept.notes.length === 0 && kept.status === 'completed');
+            this.runs.splice(idle !== -1 ? idle : 0, 1);
+        }
+        await this.save();
+
+        if (this.plugin.settings.syncReportFolder && (run.notes.length > 0 || status === 'failed')) {
+            await this.writeReport(run);
+        }
+    }
+
+    /**
+     * Finished runs, newest first
+     * @param service Only the runs of this service
+     */
+    public async getRuns(service?: SyncProviderId): Promise<SyncRun[]> {
+        await this.load();
+        return (this.runs ?? []).filter(run => !service || run.service === service).reverse();
+    }
+
+    public async clear(service?: SyncProviderId): Promise<void> {
+        await this.load();
+        if (!this.runs) return;
+        this.runs = service ? this.runs.filter(run => run.service !== service) : [];
+        await this.save();
+    }
+
+    private async writeReport(run: SyncRun): Promise<void> {
+        const folder = normalizePath(this.plugin.settings.syncReportFolder);
+        const serviceName = this.plugin.providers.getDisplayName(run.service);
+        const started = new Date(run.startedAt);
+        const pad = (value: number) => String(value).padStart(2, '0');
+        const stamp = `${started.getFullYear()}-${pad(started.getMonth() + 1)}-${pad(started.getDate())} ${pad(started.getHours())}${pad(started.getMinutes())}${pad(started.getSeconds())}`;
+        const path = normalizePath(`${folder}/${sanitizeFileName(`${stamp} ${serviceName} ${run.account} ${run.direction}`)}.md`);
+
+        const cell = (text: string) => text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+        const rows = run.notes.map(note => {
+            const link = note.path ? `[[${cell(note.path)}\\|${cell(note.title || note.path)}]]` : cell(note.title);
+            return `| ${note.action} | ${link} | ${cell(note.detail ?? '')} |`;
+        });
+        const seconds = Math.round((run.finishedAt - run.startedAt) / 1000);
+        const lines = [
+            `# Sync ${run.direction === 'pull' ? 'from' : 'to'} ${serviceName} (${run.account})`,
+            '',
+            `${started.toLocaleString()}, ${run.trigger} sync, ${run.status} in ${seconds}s: ${formatRunCounts(run)}.`,
+            ...(run.error ? ['', `Error: ${run.error}`] : []),
+            ...(rows.length > 0 ? ['', '| Action | Note | Details |', '| --- | --- | --- |', ...rows] : [])
+        ];
+        const frontMatter = stringifyFrontMatter({
+            service: run.service,
+            account: run.account,
+            direction: run.direction,
+            trigger: run.trigger,
+            status: run.status,
+            started: started.toISOString(),
+            finished: new Date(run.finishedAt).toISOString()
+        });
+
+        try {
+            if (!this.plugin.app.vault.getAbstractFileByPath(folder)) {
+                await this.plugin.app.vault.createFolder(folder).catch(() => {
+                    // Folder might already exist, that's okay
+                });
+            }
+            if (!this.plugin.app.vault.getAbstractFileByPath(path)) {
+                await this.plugin.app.vault.create(path, `${frontMatter}\n${lines.join('\n')}\n`);
+            }
+        } catch (err) {
+            console.error('Failed to write sync report:', err);
+        }
+    }
+
+    private getFilePath(): string {
+        const pluginDir = this.plugin.manifest.dir || `${this.plugin.app.vault.configDir}/plugins/${this.plugin.manifest.id}`;
+        return normalizePath(`${pluginDir}/sync-history.json`);
+    }
+
+    private async load(): Promise<void> {
+        if (this.runs) return;
+        if (!this.loading) {
+            this.loading = (async () => {
+                const adapter = this.plugin.app.vault.adapter;
+                const filePath = this.getFilePath();
+                try {
+                    if (await adapter.exists(filePath)) {
+                        const stored = JSON.parse(await adapter.read(filePath));
+                        this.runs = Array.isArray(stored) ? stored : [];
+                    } else {
+                        this.runs = [];
+                    }
+                } catch (err) {
+                    console.error('Failed to load sync history, starting empty:', err);
+                    this.runs = [];
+                }
+            })();
+        }
+        await this.loading;
+    }
+
+    private async save(): Promise<void> {
+        try {
+            await this.plugin.app.vault.adapter.write(this.getFilePath(), JSON.stringify(this.runs));
+        } catch (err) {
+            console.error('Failed to save sync history:', err);
+        }
+    }
+}
@@ -1,118 +1,295 @@
-import { Notice, TFile } from 'obsidian';
-import { FrontMatter, RemoteNote, SyncQueueItem, SyncStatus } from './types';
+import { Notice, TFile, TFolder } from 'obsidian';
+import { AccountProfile, NotesSyncSettings, SyncOptions, SyncPlan, SyncProviderId, SyncStatus } from './types';
 import NotesSyncPlugin from './main';
+import { parseFrontMatter } from './Frontmatter';
+import { SyncPlanModal } from './SyncPlanModal';
 import { SyncService } from './types';
-import { LuojiLabSyncService } from './LuojiLabSyncService';
-import { FlomoSyncService } from './FlomoSyncService';
 
 export class SyncManager {
     private plugin: NotesSyncPlugin;
-    private syncService: SyncService;
-    private autoSyncInterval: NodeJS.Timeout | null = null;
+    private services: Map<string, SyncService>;     // Keyed by account profile ID
+    private autoSyncTimers: Map<SyncProviderId, { timer: number; interval: number }>;
 
     constructor(plugin: NotesSyncPlugin) {
         this.plugin = plugin;
-        this.updateSyncService();
-        this.scheduleAutoSync();
+        this.services = new Map();
+        this.autoSyncTimers = new Map();
+        this.reloadServices();
     }
 
-    // Update the sync service based on the plugin settings
-    updateSyncService() {
-        const serviceType = this.plugin.settings.syncService;
-        console.log(`Initializing sync service: ${serviceType}`);
-        
-        // Clean up existing service if needed
-        this.cancelAutoSync();
+    /**
+     * Pick up changes to the enabled services, their accounts and their auto
+     * sync schedules
+     */
+    public reloadServices() {
+        const enabled = this.getEnabledServiceIds();
+        console.log(`Active sync services: ${enabled.join(', ') || 'none'}`);
+
+        // Forget services of removed accounts
+        for (const profileId of Array.from(this.services.keys())) {
+            if (!this.plugin.accounts.get(profileId)) {
+                this.services.get(profileId)?.cancelSync();
+                this.services.delete(profileId);
+            }
+        }
         
-        if (serviceType === 'luojilab') {
-            this.syncService = new LuojiLabSyncService(this.plugin);
-        } else if (serviceType === 'flomo') {
-            this.syncService = new FlomoSyncService(this.plugin);
-        } else {
-            console.error(`Unknown sync service type: ${serviceType}`);
-            this.syncService = new LuojiLabSyncService(this.plugin); // Default
+        for (const serviceType of enabled) {
+            this.getServices(serviceType);
         }
         
-        // Schedule auto sync with the new service
         this.scheduleAutoSync();
     }
 
-    // Cancel any scheduled auto sync
-    private cancelAutoSync() {
-        if (this.autoSyncInterval) {
-            clearInterval(this.autoSyncInterval);
-            this.autoSyncInterval = null;
+    private createSyncService(serviceType: SyncProviderId, profile: AccountProfile): SyncService {
+        const provider = this.plugin.providers.get(serviceType);
+        if (provider) {
+            return provider.create(this.plugin, profile);
+        }
+
+        console.error(`Unknown sync service type: ${serviceType}`);
+        return this.plugin.providers.getDefault().create(this.plugin, profile);
+    }
+
+    /**
+     * Get the service for a given type and account, the service's first
+     * enabled account by default. Each service is created once per account and
+     * keeps its own status; disabled services are still used for queued work
+     * and deletions.
+     */
+    public getService(serviceType: SyncProviderId = this.plugin.settings.syncService, profileId?: string): SyncService {
+        const requested = profileId ? this.plugin.accounts.get(profileId) : undefined;
+        const profile = requested && requested.service === serviceType
+            ? requested
+            : this.plugin.accounts.getDefault(serviceType);
+
+        let service = this.services.get(profile.id);
+        if (!service) {
+            service = this.createSyncService(serviceType, profile);
+            this.services.set(profile.id, service);
+        }
+        return service;
+    }
+
+    /**
+     * The services of every enabled account of a service
+     */
+    public getServices(serviceType: SyncProviderId = this.plugin.settings.syncService): SyncService[] {
+        return this.plugin.accounts.getEnabledProfiles(serviceType).map(profile => this.getService(serviceType, profile.id));
+    }
+
+    /**
+     * The service of the account whose folder holds a note
+     */
+    public getServiceForPath(serviceType: SyncProviderId, path: string): SyncService {
+        return this.getService(serviceType, this.plugin.accounts.findByPath(serviceType, path).id);
+    }
+
+    public getEnabledServiceIds(): SyncProviderId[] {
+        return this.plugin.settings.enabledServices.filter(id => this.plugin.providers.get(id));
+    }
+
+    public isEnabled(serviceType: SyncProviderId): boolean {
+        return this.plugin.settings.enabledServices.includes(serviceType);
+    }
+
+    /**
+     * Retry queued uploads, downloads and deletes whose backoff has elapsed.
+     * @param force Retry every queued item now, ignoring backoff
+     */
+    public async processQueue(force = false): Promise<void> {
+        if (this.plugin.syncQueue.count() === 0) {
+            return;
+        }
+
+        try {
+            await this.plugin.syncQueue.drain(item => item.profileId
+                ? this.getService(item.service, item.profileId)
+                : this.getServiceForPath(item.service, item.path), force);
+        } catch (err) {
+            console.error("Error processing sync queue:", err);
+        }
+    }
+
+    // Cancel all scheduled auto syncs
+    public cancelAutoSync() {
+        for (const { timer } of Array.from(this.autoSyncTimers.values())) {
+            window.clearInterval(timer);
         }
+        this.autoSyncTimers.clear();
     }
 
-    // Delegate methods to the current sync service
-    public async syncFromServer(options?: { isAutoSync?: boolean, isFullSync?: boolean }): Promise<void> {
-        return this.syncService.syncFromServer(options);
+    // Delegate methods to the enabled accounts of a service, the selected one by default
+    public async syncFromServer(options?: { isAutoSync?: boolean, isFullSync?: boolean }, serviceType?: SyncProviderId): Promise<void> {
+        for (const service of this.getServices(serviceType)) {
+            await service.syncFromServer(options);
+        }
+    }
+
+    /**
+     * Pull and then push every enabled service, one after another
+     */
+    public async syncAll(options?: { isAutoSync?: boolean }): Promise<void> {
+        for (const serviceType of this.getEnabledServiceIds()) {
+            await this.syncService(serviceType, options);
+        }
     }
 
     /**
      * Perform a full sync that ignores incremental logic and note fetch limits
      */
-    public async fullSyncFromServer(): Promise<void> {
+    public async fullSyncFromServer(serviceType: SyncProviderId = this.plugin.settings.syncService): Promise<void> {
+        for (const profile of this.plugin.accounts.getEnabledProfiles(serviceType)) {
+            await this.fullSyncAccount(serviceType, profile);
+        }
+    }
+
+    private async fullSyncAccount(serviceType: SyncProviderId, profile: AccountProfile, options?: SyncOptions): Promise<SyncPlan | void> {
         // Temporarily store existing settings
-        const originalLastSyncId = this.plugin.settings.lastSyncId;
-        const originalLastSyncTime = this.plugin.settings.lastSyncTime;
         const originalFetchLimit = this.plugin.settings.noteFetchLimit;
         
         try {
-            console.log("Starting full sync - retrieving all notes regardless of sync state");
+            console.log(`Starting full sync of ${profile.name} - retrieving all notes regardless of sync state`);
             
-            // Reset sync state to force a full sync
-            this.plugin.settings.lastSyncId = '';
-            this.plugin.settings.lastSyncTime = 0;
-            
-            // Set fetch limit to 0 (unlimited)
+            // Set fetch limit to 0 (unlimited). The pull cursors are left alone: a
+            // full sync ignores them and moves them forward when it completes.
             this.plugin.settings.noteFetchLimit = 0;
             
             // Perform the sync
-            await this.syncService.syncFromServer({ isFullSync: true });
+            const plan = await this.getService(serviceType, profile.id).syncFromServer({ ...options, isFullSync: true });
             
             // Only log success if we actually reach this point
             console.log("Full sync completed successfully");
+            return plan;
         } catch (error) {
             console.error("Full sync failed:", error);
             
-            // If sync fails, restore original sync state to prevent data loss
-            this.plugin.settings.lastSyncId = originalLastSyncId;
-            this.plugin.settings.lastSyncTime = originalLastSyncTime;
-            this.plugin.settings.noteFetchLimit = originalFetchLimit;
-            
             // Re-throw the error so the UI can handle it
             throw error;
         } finally {
-            // Only restore fetch limit if the sync was successful
-            // (otherwise we already restored it in the catch block)
-            if (!this.plugin.settings.lastSyncId && !this.plugin.settings.lastSyncTime) {
-                this.plugin.settings.noteFetchLimit = originalFetchLimit;
+            this.plugin.settings.noteFetchLimit = originalFetchLimit;
+        }
+    }
+
+    public async syncToServer(serviceType?: SyncProviderId, options?: SyncOptions): Promise<void> {
+        for (const service of this.getServices(serviceType)) {
+            await service.syncToServer(options);
+        }
+        // Changes queued by earlier failures may go through now that a push worked
+        await this.processQueue();
+    }
+
+    /**
+     * Work out what a sync of every enabled account of a service would do,
+     * show it, and apply the changes the user picks
+     * @param direction 'pull' to sync from the server, 'push' to sync to it
+     * @param isFullSync Preview a full sync rather than an incremental one
+     */
+    public async previewSync(direction: 'pull' | 'push', serviceType: SyncProviderId = this.plugin.settings.syncService, isFullSync = false): Promise<void> {
+        if (direction === 'push' && !this.plugin.providers.get(serviceType)?.capabilities.push) {
+            new Notice(`${this.plugin.providers.getDisplayName(serviceType)} doesn't support syncing to the server`);
+            return;
+        }
+
+        const plans: SyncPlan[] = [];
+        for (const profile of this.plugin.accounts.getEnabledProfiles(serviceType)) {
+            const plan = await this.runSync(direction, serviceType, profile, { dryRun: true, isFullSync });
+            if (plan) {
+                plans.push(plan);
             }
         }
+
+        if (!plans.some(plan => plan.items.some(item => item.action !== 'skip'))) {
+            new Notice('Nothing to sync');
+            return;
+        }
+
+        const selection = await new Promise<Map<string, string[]> | null>(resolve => {
+            new SyncPlanModal(this.plugin.app, plans, resolve).open();
+        });
+        if (!selection) {
+            return;
+        }
+
+        for (const plan of plans) {
+            const only = selection.get(plan.profileId);
+            const profile = this.plugin.accounts.get(plan.profileId);
+            if (!only || only.length === 0 || !profile) continue;
+
+            await this.runSync(direction, serviceType, profile, { only, isFullSync });
+        }
+
+        if (direction === 'push') {
+            await this.processQueue();
+        }
     }
 
-    public async syncToServer(): Promise<void> {
-        return this.syncService.syncToServer();
+    private async runSync(direction: 'pull' | 'push', serviceType: SyncProviderId, profile: AccountProfile, options: SyncOptions): Promise<SyncPlan | void> {
+        if (direction === 'push') {
+            return this.getService(serviceType, profile.id).syncToServer(options);
+        }
+        return options.isFullSync
+            ? this.fullSyncAccount(serviceType, profile, options)
+            : this.getService(serviceType, profile.id).syncFromServer(options);
     }
 
-    public cancelSync(): void {
-        this.syncService.cancelSync();
+    /**
+     * Cancel the sync of one service, or of every service when none is given
+     */
+    public cancelSync(serviceType?: SyncProviderId): void {
+        const services = serviceType ? this.getServices(serviceType) : Array.from(this.services.values());
+        for (const service of services) {
+            service.cancelSync();
+        }
     }
 
-    public getSyncStatus(): SyncStatus {
-        return this.syncService.getSyncStatus();
+    /**
+     * Status of a service, combined over its enabled accounts
+     */
+    public getSyncStatus(serviceType?: SyncProviderId): SyncStatus {
+        const statuses = this.getServices(serviceType).map(service => service.getSyncStatus());
+        if (statuses.length === 0) {
+            return this.getService(serviceType).getSyncStatus();
+        }
+        if (statuses.length === 1) {
+            return statuses[0];
+        }
+
+        const active = statuses.find(status => status.inProgress);
+        return {
+            inProgress: !!active,
+            lastSync: Math.max(...statuses.map(status => status.lastSync)),
+            lastSyncId: statuses[0].lastSyncId,
+            pendingChanges: statuses.reduce((sum, status) => sum + status.pendingChanges, 0),
+            errors: ([] as SyncStatus['errors']).concat(...statuses.map(status => status.errors)),
+            progress: (active || statuses[0]).progress
+        };
+    }
+
+    /**
+     * Status of every enabled service, in provider registration order
+     */
+    public getAllSyncStatuses(): Array<{ id: SyncProviderId; name: string; status: SyncStatus }> {
+        return this.getEnabledServiceIds().map(id => ({
+            id,
+            name: this.plugin.providers.getDisplayName(id),
+            status: this.getSyncStatus(id)
+        }));
+    }
+
+    public isAnySyncInProgress(): boolean {
+        return Array.from(this.services.values()).some(service => service.getSyncStatus().inProgress);
     }
 
-    public async testApiConnection(): Promise<{ success: boolean, message: string }> {
-        return this.syncService.testConnection();
+    public async testApiConnection(serviceType?: SyncProviderId, profileId?: string): Promise<{ success: boolean, message: string }> {
+        return this.getService(serviceType, profileId).testConnection();
     }
 
-    public clearErrors(): void {
+    public clearErrors(serviceType?: SyncProviderId): void {
         // Clear errors from status
-        const status = this.getSyncStatus();
-        status.errors = [];
+        for (const service of this.getServices(serviceType)) {
+            const status = service.getSyncStatus();
+            status.errors = [];
+        }
         // We'd need to update the status in the service, but for simplicity's sake
         // we just clear the array here since the errors array is returned by reference
     }
@@ -121,20 +298,19 @@ export class SyncManager {
         // Read the file to get the remote ID
         try {
             const content = await this.plugin.app.vault.read(file);
-            const frontMatter = this.parseYamlFrontMatter(content);
-            const remoteId = frontMatter?.remote_id;
+            const frontMatter = parseFrontMatter(content);
+            const match = this.plugin.providers.findByFrontMatter(frontMatter);
             
-            if (!remoteId) {
+            if (!match) {
                 throw new Error("Note doesn't have a remote ID");
             }
-            
-            // For now, only LuojiLab supports deleting notes
-            if (this.plugin.settings.syncService !== 'luojilab') {
-                throw new Error("Deleting notes is not supported for this sync service");
+            if (!match.provider.capabilities.delete) {
+                throw new Error(`${match.provider.displayName} doesn't support deleting notes`);
             }
             
-            // Delete the note from the server
-            await this.deleteNoteFromServer(remoteId);
+            // Delete the note from the server and remember it so it isn't pushed again
+            await this.getServiceForPath(match.provider.id, file.path).deleteRemoteNote(match.remoteId);
+            await this.plugin.deletionManager.recordRemoteDelete(match.provider.id, match.remoteId, file.path);
             return true;
         } catch (err) {
             console.error("Error deleting note:", err);
@@ -142,117 +318,126 @@ export class SyncManager {
         }
     }
 
-    // Helper for deleting notes from LuojiLab server
-    private async deleteNoteFromServer(remoteId: string): Promise<void> {
-        const baseUrl = this.plugin.settings.apiBaseUrl;
-        const url = `${baseUrl}/notes/${remoteId}`;
-        
-        const response = await this.fetchWithTimeout(url, {
-            method: "DELETE",
-            headers: {
-                "Authorization": `Bearer ${this.plugin.settings.bearerToken}`,
-                "Content-Type": "application/json",
-            },
-        });
-        
-        if (!response.ok) {
-            throw new Error(`Failed to delete note: ${response.status} ${response.statusText}`);
-        }
-    }
+    /**
+     * Move synced notes to where the current path templates put them. Notes
+     * whose target is taken by another file are left in place.
+     */
+    public async relayoutNotes(): Promise<{ moved: number; skipped: number }> {
+        let moved = 0;
+        let skipped = 0;
 
-    private parseYamlFrontMatter(content: string): any | null {
-        try {
-            const match = content.match(/^---\n([\s\S]*?)\n---/);
-            if (!match) return null;
-            
-            // Simple YAML parsing for front matter
-            const frontMatter: any = {};
-            const lines = match[1].split("\n");
-            
-            for (const line of lines) {
-                if (!line.trim()) continue;
-                const colonIndex = line.indexOf(':');
-                if (colonIndex === -1) continue;
-                
-                const key = line.substring(0, colonIndex).trim();
-                let value = line.substring(colonIndex + 1).trim();
-                
-                // Handle array values (simplified)
-                if (value.startsWith('[') && value.endsWith(']')) {
-                    // Convert array string to actual array and join back with commas for string representation
-                    const arrayItems = value.substring(1, value.length - 1).split(',').map(v => v.trim());
-                    frontMatter[key] = arrayItems;
-                } else {
-                    frontMatter[key] = value;
+        for (const serviceType of this.getEnabledServiceIds()) {
+            const provider = this.plugin.providers.get(serviceType);
+            if (!provider) continue;
+
+            for (const profile of this.plugin.accounts.getEnabledProfiles(serviceType)) {
+                const service = this.getService(serviceType, profile.id);
+                const folder = String(this.plugin.accounts.getSettings(profile)[provider.folderSetting as keyof NotesSyncSettings]);
+                await this.plugin.syncState.ensureSeeded(serviceType, folder, provider.idKey);
+
+                const oldFolders = new Set<string>();
+                for (const entry of await this.plugin.syncState.getEntries(serviceType, folder)) {
+                    const file = this.plugin.app.vault.getAbstractFileByPath(entry.path);
+                    if (!(file instanceof TFile)) continue;
+
+                    const frontMatter = this.plugin.app.metadataCache.getFileCache(file)?.frontmatter;
+                    const targetPath = frontMatter ? service.getLocalPath(frontMatter) : null;
+                    if (!targetPath || targetPath === file.path) continue;
+
+                    if (this.plugin.app.vault.getAbstractFileByPath(targetPath)) {
+                        console.log(`Not moving ${file.path}: ${targetPath} already exists`);
+                        skipped++;
+                        continue;
+                    }
+
+                    try {
+                        const targetFolder = targetPath.substring(0, targetPath.lastIndexOf('/'));
+                        if (!this.plugin.app.vault.getAbstractFileByPath(targetFolder)) {
+                            await this.plugin.app.vault.createFolder(targetFolder);
+                        }
+
+                        oldFolders.add(file.parent?.path ?? '');
+                        this.plugin.renameTracker.expectLayoutMove(targetPath);
+                        await this.plugin.app.fileManager.renameFile(file, targetPath);
+                        moved++;
+                    } catch (error) {
+                        console.error(`Failed to move ${file.path} to ${targetPath}:`, error);
+                        skipped++;
+                    }
                 }
+
+                await this.removeEmptyFolders(Array.from(oldFolders), folder);
             }
-            
-            return frontMatter;
-        } catch (e) {
-            console.error('Error parsing front matter:', e);
-            return null;
         }
+
+        return { moved, skipped };
     }
 
-    // Timeout handling for fetch requests
-    private async fetchWithTimeout(url: string, options: RequestInit, timeout = 10000): Promise<Response> {
-        const controller = new AbortController();
-        const id = setTimeout(() => controller.abort(), timeout);
-        
-        try {
-            const response = await fetch(url, {
-                ...options,
-                signal: controller.signal
-            });
-            clearTimeout(id);
-            return response;
-        } catch (error) {
-            clearTimeout(id);
-            if (error.name === 'AbortError') {
-                throw new Error('Request timed out');
+    /**
+     * Remove folders left empty by moved notes, up to but not including the sync folder
+     */
+    private async removeEmptyFolders(paths: string[], syncFolder: string): Promise<void> {
+        // Deepest first, so parents are empty by the time they're checked
+        const sorted = paths.sort((a, b) => b.length - a.length);
+        for (let path of sorted) {
+            while (path.startsWith(syncFolder + '/')) {
+                const folder = this.plugin.app.vault.getAbstractFileByPath(path);
+                if (!(folder instanceof TFolder) || folder.children.length > 0) break;
+
+                await this.plugin.app.vault.delete(folder);
+                path = path.substring(0, path.lastIndexOf('/'));
             }
-            throw error;
         }
     }
 
+    /**
+     * Start one auto sync timer per enabled service that has auto sync turned on.
+     * Timers whose schedule didn't change keep running, so saving settings
+     * after one service synced doesn't delay the others.
+     */
     private scheduleAutoSync() {
-        if (this.autoSyncInterval) {
-            clearInterval(this.autoSyncInterval);
+        const wanted = new Map<SyncProviderId, number>();
+        for (const serviceType of this.getEnabledServiceIds()) {
+            const schedule = this.plugin.settings.serviceAutoSync[serviceType];
+            if (schedule?.enabled && schedule.interval > 0) {
+                wanted.set(serviceType, schedule.interval);
+            }
         }
 
-        if (!this.plugin.settings.autoSync || this.plugin.settings.autoSyncInterval <= 0) {
-            return;
+        for (const [serviceType, { timer, interval }] of Array.from(this.autoSyncTimers.entries())) {
+            if (wanted.get(serviceType) !== interval) {
+                window.clearInterval(timer);
+                this.autoSyncTimers.delete(serviceType);
+            }
         }
 
-        const intervalMinutes = this.plugin.settings.autoSyncInterval;
-        const intervalMs = intervalMinutes * 60 * 1000;
-
-        this.autoSyncInterval = setInterval(async () => {
-            try {
-                // Only run auto sync if not already syncing
-                if (this.syncService && !this.syncService.getSyncStatus().inProgress) {
-                    console.log(`Running auto sync (interval: ${intervalMinutes} minutes)`);
-                    
-                    // Log what type of sync we're doing
-                    const hasLastSyncId = this.plugin.settings.lastSyncId && this.plugin.settings.lastSyncId.trim() !== '';
-                    
-                    if (hasLastSyncId) {
-                        console.log(`Auto sync: incremental sync using ID ${this.plugin.settings.lastSyncId}`);
-                    } else if (this.plugin.settings.lastSyncTime > 0) {
-                        const lastSyncDate = new Date(this.plugin.settings.lastSyncTime);
-                        console.log(`Auto sync: incremental sync since ${lastSyncDate.toLocaleString()}`);
-                    } else {
-                        console.log(`Auto sync: full sync (no previous sync found)`);
+        for (const [serviceType, interval] of Array.from(wanted.entries())) {
+            if (this.autoSyncTimers.has(serviceType)) {
+                continue;
+            }
+
+            const timer = window.setInterval(async () => {
+                try {
+                    // Only run auto sync if not already syncing
+                    if (!this.getSyncStatus(serviceType).inProgress) {
+                        console.log(`Running auto sync for ${serviceType} (interval: ${interval} minutes)`);
+                        await this.syncService(serviceType, { isAutoSync: true });
                     }
-                    
-                    // Pass isAutoSync: true to tell the service this is an auto sync
-                    await this.syncService.syncFromServer({ isAutoSync: true });
+                } catch (err) {
+                    console.error(`Auto sync error (${serviceType}):`, err);
                 }
-            } catch (err) {
-                console.error("Auto sync error:", err);
-            }
-        }, intervalMs);
+            }, interval * 60 * 1000);
 
-        console.log(`Auto sync scheduled every ${intervalMinutes} minutes`);
+            this.autoSyncTimers.set(serviceType, { timer, interval });
+            console.log(`Auto sync for ${serviceType} scheduled every ${interval} minutes`);
+        }
+    }
+
+    private async syncService(serviceType: SyncProviderId, options?: { isAutoSync?: boolean }): Promise<void> {
+        await this.syncFromServer(options, serviceType);
+        const provider = this.plugin.providers.get(serviceType);
+        if (provider?.capabilities.push) {
+            await this.syncToServer(serviceType, options);
+        }
     }
-} 
\ No newline at end of file
+}
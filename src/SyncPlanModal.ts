@@ -0,0 +1,110 @@
+import { App, Modal } from 'obsidian';
+import { SyncPlan, SyncPlanAction, SyncPlanItem } from './types';
+
+const ACTION_LABELS: Record<SyncPlanAction, string> = {
+    create: 'Create',
+    update: 'Update',
+    conflict: 'Conflict',
+    delete: 'Delete',
+    skip: 'Skip'
+};
+
+// Conflicts are left for the user to opt in to, skipped notes can't be picked
+const CHECKED_BY_DEFAULT: SyncPlanAction[] = ['create', 'update', 'delete'];
+
+/**
+ * Shows the plans of a dry run sync and lets the user pick the changes to apply.
+ * Resolves with the picked keys per account profile ID, or null if cancelled.
+ */
+export class SyncPlanModal extends Modal {
+    private plans: SyncPlan[];
+    private onResolve: (selection: Map<string, string[]> | null) => void;
+    private selected: Map<string, Set<string>>;
+    private applied: boolean;
+
+    constructor(app: App, plans: SyncPlan[], onResolve: (selection: Map<string, string[]> | null) => void) {
+        super(app);
+        this.plans = plans;
+        this.onResolve = onResolve;
+        this.selected = new Map();
+        this.applied = false;
+    }
+
+    onOpen() {
+        this.modalEl.addClass('notes-sync-plan-modal');
+        const {contentEl} = this;
+
+        const direction = this.plans[0]?.direction === 'push' ? 'to the server' : 'from the server';
+        contentEl.createEl('h3', {text: `Preview of sync ${direction}`});
+        contentEl.createEl('p', {
+            text: 'Nothing has been changed yet. Pick the changes to apply.',
+            cls: 'sync-plan-description'
+        });
+
+        const listEl = contentEl.createDiv('sync-plan-list');
+        for (const plan of this.plans) {
+            const selected = new Set(plan.items.filter(item => CHECKED_BY_DEFAULT.includes(item.action)).map(item => item.key));
+            this.selected.set(plan.profileId, selected);
+
+            if (this.plans.length > 1) {
+                listEl.createEl('h4', {text: plan.account, cls: 'sync-plan-account'});
+            }
+            for (const action of Object.keys(ACTION_LABELS) as SyncPlanAction[]) {
+                const items = plan.items.filter(item => item.action === action);
+                if (items.length > 0) {
+                    this.renderGroup(listEl, action, items, selected);
+                }
+            }
+        }
+
+        const buttonContainer = contentEl.createDiv('button-container');
+
+        buttonContainer.createEl('button', {text: 'Cancel'}).addEventListener('click', () => {
+            this.close();
+        });
+
+        buttonContainer.createEl('button', {text: 'Apply', cls: 'mod-cta'}).addEventListener('click', () => {
+            this.applied = true;
+            this.close();
+        });
+    }
+
+    private renderGroup(listEl: HTMLElement, action: SyncPlanAction, items: SyncPlanItem[], selected: Set<string>) {
+        // Skipped notes are listed folded away, for reference
+        const groupEl = action === 'skip' ? listEl.createEl('details') : listEl.createDiv();
+        groupEl.addClass('sync-plan-group', `sync-plan-${action}`);
+        groupEl.createEl(action === 'skip' ? 'summary' : 'div', {
+            text: `${ACTION_LABELS[action]} (${items.length})`,
+            cls: 'sync-plan-group-title'
+        });
+
+        for (const item of items) {
+            const label = groupEl.createEl('label', {cls: 'sync-plan-item'});
+            const checkbox = label.createEl('input', {attr: {type: 'checkbox'}}) as HTMLInputElement;
+            checkbox.checked = selected.has(item.key);
+            checkbox.disabled = action === 'skip';
+            checkbox.addEventListener('change', () => {
+                if (checkbox.checked) {
+                    selected.add(item.key);
+                } else {
+                    selected.delete(item.key);
+                }
+            });
+
+            const textEl = label.createDiv('sync-plan-item-text');
+            textEl.createDiv({text: item.title, cls: 'sync-plan-item-title'});
+            const details = [item.path, item.reason].filter(detail => detail).join(' · ');
+            if (details) {
+                textEl.createDiv({text: details, cls: 'sync-plan-item-details'});
+            }
+        }
+    }
+
+    onClose() {
+        const {contentEl} = this;
+        contentEl.empty();
+        this.onResolve(this.applied
+            ? new Map(Array.from(this.selected.entries()).map(([profileId, keys]) => [profileId, Array.from(keys)]))
+            : null);
+    }
+}
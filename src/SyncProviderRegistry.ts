@@ -0,0 +1,62 @@
+import { SyncProvider, SyncProviderId } from './types';
+
+/**
+ * The sync backends the plugin knows about. The sidebar tabs, the settings
+ * sections and the service used by SyncManager are all looked up here, so a
+ * new backend only has to register its provider.
+ */
+export class SyncProviderRegistry {
+    private providers: Map<SyncProviderId, SyncProvider>;
+
+    constructor() {
+        this.providers = new Map();
+    }
+
+    public register(provider: SyncProvider): void {
+        if (this.providers.has(provider.id)) {
+            console.warn(`Sync provider ${provider.id} is already registered, replacing it`);
+        }
+        this.providers.set(provider.id, provider);
+    }
+
+    public get(id: SyncProviderId): SyncProvider | undefined {
+        return this.providers.get(id);
+    }
+
+    /**
+     * All providers, in registration order
+     */
+    public getAll(): SyncProvider[] {
+        return Array.from(this.providers.values());
+    }
+
+    /**
+     * The first registered provider, used when the configured one is unknown
+     */
+    public getDefault(): SyncProvider {
+        const provider = this.getAll()[0];
+        if (!provider) {
+            throw new Error('No sync providers registered');
+        }
+        return provider;
+    }
+
+    public getDisplayName(id: SyncProviderId): string {
+        return this.providers.get(id)?.displayName ?? id;
+    }
+
+    /**
+     * Find which provider a note was synced with, from its frontmatter
+     */
+    public findByFrontMatter(frontMatter: Record<string, unknown> | null | undefined): { provider: SyncProvider; remoteId: string } | null {
+        if (!frontMatter) return null;
+
+        for (const provider of this.getAll()) {
+            const remoteId = frontMatter[provider.idKey];
+            if (remoteId) {
+                return { provider, remoteId: String(remoteId) };
+            }
+        }
+        return null;
+    }
+}
@@ -0,0 +1,154 @@
+import { Notice } from 'obsidian';
+import NotesSyncPlugin from './main';
+import { SyncQueueItem, SyncService } from './types';
+
+/**
+ * Durable queue of uploads and downloads that failed during a sync.
+ * Items are stored in plugin data so they survive restarts, and are retried
+ * with exponential backoff until they succeed or run out of attempts.
+ */
+export class SyncQueue {
+    private plugin: NotesSyncPlugin;
+    private isDraining: boolean;
+
+    // Backoff starts at 30 seconds and is capped at 30 minutes
+    private static readonly BASE_DELAY = 30 * 1000;
+    private static readonly MAX_DELAY = 30 * 60 * 1000;
+
+    constructor(plugin: NotesSyncPlugin) {
+        this.plugin = plugin;
+        this.isDraining = false;
+
+        if (!Array.isArray(this.plugin.settings.syncQueue)) {
+            this.plugin.settings.syncQueue = [];
+        }
+    }
+
+    public getItems(service?: SyncQueueItem['service']): SyncQueueItem[] {
+        const items = this.plugin.settings.syncQueue;
+        return service ? items.filter(item => item.service === service) : [...items];
+    }
+
+    /**
+     * @param profileId Only count the items of this account profile
+     */
+    public count(service?: SyncQueueItem['service'], profileId?: string): number {
+        const items = this.getItems(service);
+        return profileId ? items.filter(item => item.profileId === profileId).length : items.length;
+    }
+
+    /**
+     * Add an item to the queue. If the same note is already queued in the same
+     * direction, the existing entry is refreshed instead of adding a duplicate.
+     */
+    public async enqueue(
+        item: Pick<SyncQueueItem, 'service' | 'profileId' | 'type' | 'path' | 'remoteId' | 'payload' | 'lastError'>
+    ): Promise<void> {
+        const now = Date.now();
+        const existing = this.plugin.settings.syncQueue.find(queued =>
+            queued.service === item.service &&
+            queued.profileId === item.profileId &&
+            queued.type === item.type &&
+            (item.remoteId ? queued.remoteId === item.remoteId : queued.path === item.path)
+        );
+
+        if (existing) {
+            existing.path = item.path;
+            existing.payload = item.payload ?? existing.payload;
+            existing.lastError = item.lastError;
+            existing.timestamp = now;
+        } else {
+            this.plugin.settings.syncQueue.push({
+                id: `${now}-${Math.random().toString(36).substring(2, 8)}`,
+                ...item,
+                retryCount: 0,
+                timestamp: now,
+                nextAttempt: now
+            });
+        }
+
+        console.log(`Queued ${item.type} of ${item.path} for ${item.service}`);
+        await this.plugin.saveSyncState();
+    }
+
+    public async remove(id: string): Promise<void> {
+        this.plugin.settings.syncQueue = this.plugin.settings.syncQueue.filter(item => item.id !== id);
+        await this.plugin.saveSyncState();
+    }
+
+    public async clear(): Promise<void> {
+        this.plugin.settings.syncQueue = [];
+        await this.plugin.saveSyncState();
+    }
+
+    /**
+     * Retry every item whose backoff has elapsed.
+     * @param getService Resolves the sync service that should process an item
+     * @param force Ignore backoff and retry all items now
+     */
+    public async drain(
+        getService: (item: SyncQueueItem) => SyncService | null,
+        force = false
+    ): Promise<{ processed: number; failed: number; dropped: number }> {
+        const result = { processed: 0, failed: 0, dropped: 0 };
+
+        if (this.isDraining || this.plugin.settings.syncQueue.length === 0) {
+            return result;
+        }
+
+        // No point hammering the API while the device is offline
+        if (!navigator.onLine) {
+            console.log('Offline, postponing sync queue processing');
+            return result;
+        }
+
+        this.isDraining = true;
+
+        try {
+            const now = Date.now();
+            const dueItems = this.plugin.settings.syncQueue.filter(item =>
+                force || !item.nextAttempt || item.nextAttempt <= now
+            );
+
+            for (const item of dueItems) {
+                const service = getService(item);
+                if (!service || service.getSyncStatus().inProgress) {
+                    continue;
+                }
+
+                try {
+                    await service.processQueueItem(item);
+                    this.plugin.settings.syncQueue = this.plugin.settings.syncQueue.filter(queued => queued.id !== item.id);
+                    result.processed++;
+                } catch (error) {
+                    item.retryCount++;
+                    item.lastError = error.message || String(error);
+
+                    if (item.retryCount >= this.plugin.settings.retryAttempts) {
+                        console.error(`Giving up on queued ${item.type} of ${item.path} after ${item.retryCount} attempts:`, error);
+                        this.plugin.settings.syncQueue = this.plugin.settings.syncQueue.filter(queued => queued.id !== item.id);
+                        new Notice(`Failed to ${item.type} "${item.path}" after ${item.retryCount} attempts: ${item.lastError}`);
+                        result.dropped++;
+                    } else {
+                        item.nextAttempt = Date.now() + this.getBackoffDelay(item.retryCount);
+                        console.log(`Queued ${item.type} of ${item.path} failed, retrying at ${new Date(item.nextAttempt).toLocaleTimeString()}`);
+                        result.failed++;
+                    }
+                }
+            }
+
+            if (result.processed > 0) {
+                new Notice(`Sync queue: ${result.processed} pending change${result.processed > 1 ? 's' : ''} synced`);
+            }
+        } finally {
+            this.isDraining = false;
+            await this.plugin.saveSyncState();
+        }
+
+        return result;
+    }
+
+    private getBackoffDelay(retryCount: number): number {
+        return Math.min(SyncQueue.BASE_DELAY * Math.pow(2, retryCount - 1), SyncQueue.MAX_DELAY);
+    }
+}
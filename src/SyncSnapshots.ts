@@ -0,0 +1,273 @@
+import { TFile, normalizePath } from 'obsidian';
+import NotesSyncPlugin from './main';
+import { SyncCursor, SyncProviderId, SyncRun, SyncStateEntry } from './types';
+
+// A file a sync run changed, as it was before it
+interface SnapshotFile {
+    path: string;
+    snapshot: string | null;        // File in the snapshot folder holding the old content; null if the run created the file
+    remoteId?: string;              // Remote note of the file, whose sync state is kept below
+    state?: SyncStateEntry | null;  // Sync state index entry of the remote note; null if it had none
+    base?: string | null;           // Merge base of the remote note; null if it had none
+}
+
+// The files a sync run changed, and the sync state of its account, as they were before it
+export interface SyncSnapshot {
+    runId: string;
+    service: SyncProviderId;
+    profileId: string;
+    account: string;
+    direction: SyncRun['direction'];
+    startedAt: number;
+    cursor?: SyncCursor;            // Cursor of the account when the run started
+    files: SnapshotFile[];
+}
+
+/**
+ * Keeps the contents files had before a sync run changed, created or deleted
+ * them, so the run can be rolled back. Each run that touched files gets its
+ * own folder under the plugin folder, written as it goes so an interrupted
+ * sync can be rolled back too. Only the snapshots of the newest runs are
+ * kept, as many as the retention setting allows.
+ *
+ * Only pulls are snapshotted. A push only writes the IDs and hashes of the
+ * remote notes into the notes it uploaded, and rolling that back would leave
+ * the uploaded notes to be uploaded again as new ones.
+ */
+export class SyncSnapshots {
+    private plugin: NotesSyncPlugin;
+    private active: Map<string, SyncSnapshot>;      // Snapshots of runs in progress, by run ID
+
+    constructor(plugin: NotesSyncPlugin) {
+        this.plugin = plugin;
+        this.active = new Map();
+    }
+
+    /**
+     * Start capturing for a pull, from the cursor its account has before it moves
+     */
+    public start(run: SyncRun): void {
+        if (run.direction !== 'pull' || this.plugin.settings.snapshotRetention <= 0) return;
+
+        this.active.set(run.id, {
+            runId: run.id,
+            service: run.service,
+            profileId: run.profileId,
+            account: run.account,
+            direction: run.direction,
+            startedAt: run.startedAt,
+            cursor: { ...this.plugin.cursors.get(run.profileId) },
+            files: []
+        });
+    }
+
+    /**
+     * Keep the content of a file a run is about to change or delete.
+     * Only the first capture of a file in a run counts.
+     * @param remoteId The remote note of the file, looked up in the sync state index by default
+     */
+    public async capture(run: SyncRun, file: TFile, remoteId?: string): Promise<void> {
+        const snapshot = this.active.get(run.id);
+        if (!snapshot || snapshot.files.some(entry => entry.path === file.path)) return;
+
+        try {
+            const name = `${snapshot.files.length}.md`;
+            await this.ensureFolder(run.id);
+            await this.plugin.app.vault.adapter.write(normalizePath(`${this.getFolder(run.id)}/${name}`), await this.plugin.app.vault.read(file));
+            const indexed = remoteId ?? (await this.plugin.syncState.getByPath(file.path))?.remoteId;
+            snapshot.files.push({ path: file.path, snapshot: name, ...(await this.getRemoteState(snapshot.service, indexed)) });
+            await this.saveManifest(snapshot);
+        } catch (err) {
+            console.error(`Failed to snapshot ${file.path}:`, err);
+        }
+    }
+
+    /**
+     * Remember a file a run created, so rolling back removes it
+     * @param remoteId The remote note the file was created for, if any
+     */
+    public async captureCreated(run: SyncRun, path: string, remoteId?: string): Promise<void> {
+        const snapshot = this.active.get(run.id);
+        if (!snapshot || snapshot.files.some(entry => entry.path === path)) return;
+
+        try {
+            await this.ensureFolder(run.id);
+            snapshot.files.push({ path, snapshot: null, ...(await this.getRemoteState(snapshot.service, remoteId)) });
+            await this.saveManifest(snapshot);
+        } catch (err) {
+            console.error(`Failed to snapshot ${path}:`, err);
+        }
+    }
+
+    /**
+     * Stop capturing for a run that ended, and drop snapshots past the retention
+     */
+    public async finish(run: SyncRun): Promise<void> {
+        const snapshot = this.active.get(run.id);
+        this.active.delete(run.id);
+        if (snapshot && snapshot.files.length > 0) {
+            await this.prune();
+        }
+    }
+
+    /**
+     * The snapshot of the newest pull that changed files, if any is kept
+     */
+    public async getLatest(): Promise<SyncSnapshot | null> {
+        const ids = await this.listRunIds();
+        for (const runId of ids.reverse()) {
+            if (this.active.has(runId)) continue;
+
+            // Older versions snapshotted pushes too
+            const snapshot = await this.loadManifest(runId);
+            if (snapshot && snapshot.direction === 'pull') return snapshot;
+        }
+        return null;
+    }
+
+    /**
+     * Put every file of a snapshot back the way it was before its run, along
+     * with the sync state of its remote notes and the cursor of its account,
+     * then drop the snapshot, so the next rollback goes one run further back.
+     * Files the run created are moved to the system trash without deleting
+     * their remote notes.
+     */
+    public async rollback(snapshot: SyncSnapshot): Promise<{ restored: number; removed: number; failed: number }> {
+        const vault = this.plugin.app.vault;
+        const result = { restored: 0, removed: 0, failed: 0 };
+
+        for (const entry of snapshot.files) {
+            try {
+                const existing = vault.getAbstractFileByPath(entry.path);
+                if (entry.snapshot === null) {
+                    if (existing instanceof TFile) {
+                        await this.plugin.deletionManager.trashLocally(existing);
+                        result.removed++;
+                    }
+                } else {
+                    const content = await vault.adapter.read(normalizePath(`${this.getFolder(snapshot.runId)}/${entry.snapshot}`));
+                    if (existing instanceof TFile) {
+                        await vault.modify(existing, content);
+                    } else {
+                        const folder = entry.path.substring(0, entry.path.lastIndexOf('/'));
+                        if (folder && !vault.getAbstractFileByPath(folder)) {
+                            await vault.createFolder(folder).catch(() => {
+                                // Folder might already exist, that's okay
+                            });
+                        }
+                        await vault.create(entry.path, content);
+                    }
+                    result.restored++;
+                }
+                await this.restoreRemoteState(snapshot.service, entry);
+            } catch (err) {
+                console.error(`Failed to roll back ${entry.path}:`, err);
+                result.failed++;
+            }
+        }
+
+        // The next pull fetches from where this one started
+        if (snapshot.cursor) {
+            await this.plugin.cursors.update(snapshot.profileId, snapshot.cursor);
+        }
+
+        if (result.failed === 0) {
+            await this.remove(snapshot.runId);
+        }
+        return result;
+    }
+
+    /**
+     * The sync state index entry and merge base of a remote note, to keep in a snapshot
+     */
+    private async getRemoteState(service: SyncProviderId, remoteId?: string): Promise<Pick<SnapshotFile, 'remoteId' | 'state' | 'base'>> {
+        if (!remoteId) return {};
+
+        const state = await this.plugin.syncState.get(service, remoteId);
+        const base = await this.plugin.mergeBaseStore.get(service, remoteId);
+        return { remoteId, state: state ? { ...state } : null, base: base ?? null };
+    }
+
+    private async restoreRemoteState(service: SyncProviderId, entry: SnapshotFile): Promise<void> {
+        if (!entry.remoteId) return;
+
+        if (entry.state) {
+            await this.plugin.syncState.set(entry.state);
+        } else {
+            await this.plugin.syncState.delete(service, entry.remoteId);
+        }
+        if (typeof entry.base === 'string') {
+            await this.plugin.mergeBaseStore.set(service, entry.remoteId, entry.base);
+        } else {
+            await this.plugin.mergeBaseStore.delete(service, entry.remoteId);
+        }
+    }
+
+    private async prune(): Promise<void> {
+        const ids = await this.listRunIds();
+        const retention = Math.max(this.plugin.settings.snapshotRetention, 0);
+        for (const runId of ids.slice(0, Math.max(ids.length - retention, 0))) {
+            if (!this.active.has(runId)) {
+                await this.remove(runId);
+            }
+        }
+    }
+
+    /**
+     * IDs of the runs with a snapshot, oldest first
+     */
+    private async listRunIds(): Promise<string[]> {
+        const adapter = this.plugin.app.vault.adapter;
+        const root = this.getRoot();
+        try {
+            if (!(await adapter.exists(root))) return [];
+            const { folders } = await adapter.list(root);
+            // Run IDs start with their start time
+            return folders.map(folder => folder.substring(folder.lastIndexOf('/') + 1)).sort();
+        } catch (err) {
+            console.error('Failed to list sync snapshots:', err);
+            return [];
+        }
+    }
+
+    private async loadManifest(runId: string): Promise<SyncSnapshot | null> {
+        const filePath = normalizePath(`${this.getFolder(runId)}/manifest.json`);
+        try {
+            if (!(await this.plugin.app.vault.adapter.exists(filePath))) return null;
+            const snapshot = JSON.parse(await this.plugin.app.vault.adapter.read(filePath));
+            return Array.isArray(snapshot?.files) && snapshot.files.length > 0 ? snapshot : null;
+        } catch (err) {
+            console.error(`Failed to read sync snapshot ${runId}:`, err);
+            return null;
+        }
+    }
+
+    private async saveManifest(snapshot: SyncSnapshot): Promise<void> {
+        await this.plugin.app.vault.adapter.write(normalizePath(`${this.getFolder(snapshot.runId)}/manifest.json`), JSON.stringify(snapshot));
+    }
+
+    private async ensureFolder(runId: string): Promise<void> {
+        const adapter = this.plugin.app.vault.adapter;
+        const folder = this.getFolder(runId);
+        if (!(await adapter.exists(folder))) {
+            await adapter.mkdir(folder);
+        }
+    }
+
+    private async remove(runId: string): Promise<void> {
+        try {
+            await this.plugin.app.vault.adapter.rmdir(this.getFolder(runId), true);
+        } catch (err) {
+            console.error(`Failed to remove sync snapshot ${runId}:`, err);
+        }
+    }
+
+    private getFolder(runId: string): string {
+        return normalizePath(`${this.getRoot()}/${runId}`);
+    }
+
+    private getRoot(): string {
+        const pluginDir = this.plugin.manifest.dir || `${this.plugin.app.vault.configDir}/plugins/${this.plugin.manifest.id}`;
+        return normalizePath(`${pluginDir}/snapshots`);
+    }
+}
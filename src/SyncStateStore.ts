@@ -0,0 +1,268 @@
+import { TAbstractFile, TFile, TFolder, normalizePath } from 'obsidian';
+import NotesSyncPlugin from './main';
+import { SyncStateEntry } from './types';
+
+interface SyncStateData {
+    seeded: string[];                           // "service:folder" pairs whose existing notes were indexed
+    entries: Record<string, SyncStateEntry>;    // Keyed by "service:remoteId"
+}
+
+/**
+ * Index of synced notes: remote ID -> local path, content hash, remote
+ * updated_at and last sync time. Kept in its own file in the plugin folder and
+ * updated from vault rename/delete events, so finding the local file of a
+ * remote note doesn't require reading the sync folder.
+ */
+export class SyncStateStore {
+    private plugin: NotesSyncPlugin;
+    private data: SyncStateData | null;
+    private pathIndex: Map<string, string>;
+    private loading: Promise<void> | null;
+    private saveTimer: number | null;
+
+    // Writes during a sync are coalesced into one save
+    private static readonly SAVE_DELAY = 1000;
+
+    constructor(plugin: NotesSyncPlugin) {
+        this.plugin = plugin;
+        this.data = null;
+        this.pathIndex = new Map();
+        this.loading = null;
+        this.saveTimer = null;
+    }
+
+    /**
+     * Follow renamed and deleted notes
+     */
+    public register(): void {
+        this.load();
+        this.plugin.registerEvent(
+            this.plugin.app.vault.on('rename', (file: TAbstractFile, oldPath: string) => {
+                this.onRename(file, oldPath);
+            })
+        );
+        this.plugin.registerEvent(
+            this.plugin.app.vault.on('delete', (file: TAbstractFile) => {
+                this.onDelete(file);
+            })
+        );
+    }
+
+    public async get(service: SyncStateEntry['service'], remoteId: string): Promise<SyncStateEntry | undefined> {
+        await this.load();
+        return this.data?.entries[this.getKey(service, remoteId)];
+    }
+
+    public async getByPath(path: string): Promise<SyncStateEntry | undefined> {
+        await this.load();
+        const key = this.pathIndex.get(path);
+        return key ? this.data?.entries[key] : undefined;
+    }
+
+    /**
+     * @param folder Only entries of notes in this folder, i.e. of one account
+     */
+    public async getEntries(service: SyncStateEntry['service'], folder?: string): Promise<SyncStateEntry[]> {
+        await this.load();
+        return Object.values(this.data?.entries || {}).filter(entry =>
+            entry.service === service && (!folder || entry.path.startsWith(folder + '/'))
+        );
+    }
+
+    /**
+     * Find the local file of a remote note. Stale entries are dropped.
+     */
+    public async findFile(service: SyncStateEntry['service'], remoteId: string): Promise<TFile | null> {
+        const entry = await this.get(service, remoteId);
+        if (!entry) return null;
+
+        const file = this.plugin.app.vault.getAbstractFileByPath(entry.path);
+        if (file instanceof TFile) {
+            return file;
+        }
+
+        await this.delete(service, remoteId);
+        return null;
+    }
+
+    /**
+     * Record the state of a note after a successful sync
+     */
+    public async set(entry: SyncStateEntry): Promise<void> {
+        if (!entry.remoteId) return;
+
+        await this.load();
+        if (!this.data) return;
+
+        const key = this.getKey(entry.service, entry.remoteId);
+        const previous = this.data.entries[key];
+        if (previous && previous.path !== entry.path) {
+            this.pathIndex.delete(previous.path);
+        }
+
+        this.data.entries[key] = { ...previous, ...entry };
+        this.pathIndex.set(entry.path, key);
+        this.scheduleSave();
+    }
+
+    public async delete(service: SyncStateEntry['service'], remoteId: string): Promise<void> {
+        await this.load();
+        const key = this.getKey(service, remoteId);
+        const entry = this.data?.entries[key];
+        if (this.data && entry) {
+            delete this.data.entries[key];
+            this.pathIndex.delete(entry.path);
+            this.scheduleSave();
+        }
+    }
+
+    /**
+     * Index the notes a service synced before this store existed, using the
+     * frontmatter already held in the metadata cache. Runs once per service
+     * and folder, as each account of a service syncs into its own folder.
+     * @param idKey Frontmatter key that holds the remote ID
+     */
+    public async ensureSeeded(service: SyncStateEntry['service'], folder: string, idKey: string): Promise<void> {
+        await this.load();
+        const seededKey = `${service}:${folder}`;
+        if (!this.data || this.data.seeded.includes(seededKey)) return;
+
+        let count = 0;
+        const files = this.plugin.app.vault.getMarkdownFiles().filter(file =>
+            file.path.startsWith(folder + '/') || file.path === folder
+        );
+
+        for (const file of files) {
+            const frontMatter = this.plugin.app.metadataCache.getFileCache(file)?.frontmatter;
+            const remoteId = frontMatter?.[idKey];
+            if (!remoteId || this.data.entries[this.getKey(service, String(remoteId))]) continue;
+
+            const key = this.getKey(service, String(remoteId));
+            this.data.entries[key] = {
+                service,
+                remoteId: String(remoteId),
+                path: file.path,
+                hash: frontMatter.content_hash ? String(frontMatter.content_hash) : undefined,
+                remoteUpdatedAt: frontMatter.updated_at ? String(frontMatter.updated_at) : undefined,
+                slug: frontMatter.slug || undefined,
+                lastSynced: Number(frontMatter.last_synced) || 0
+            };
+            this.pathIndex.set(file.path, key);
+            count++;
+        }
+
+        this.data.seeded.push(seededKey);
+        console.log(`Indexed ${count} existing ${service} notes in ${folder}`);
+        await this.flush();
+    }
+
+    /**
+     * Write any pending changes now
+     */
+    public async flush(): Promise<void> {
+        if (this.saveTimer) {
+            window.clearTimeout(this.saveTimer);
+            this.saveTimer = null;
+        }
+        if (!this.data) return;
+
+        try {
+            await this.plugin.app.vault.adapter.write(this.getFilePath(), JSON.stringify(this.data));
+        } catch (err) {
+            console.error('Failed to save sync state:', err);
+        }
+    }
+
+    private onRename(file: TAbstractFile, oldPath: string): void {
+        if (!this.data) return;
+
+        if (file instanceof TFolder) {
+            // Children of a renamed folder
+            const prefix = oldPath + '/';
+            for (const [path, key] of Array.from(this.pathIndex.entries())) {
+                if (path.startsWith(prefix)) {
+                    this.movePath(key, path, file.path + '/' + path.substring(prefix.length));
+                }
+            }
+            return;
+        }
+
+        const key = this.pathIndex.get(oldPath);
+        if (key) {
+            this.movePath(key, oldPath, file.path);
+        }
+    }
+
+    private onDelete(file: TAbstractFile): void {
+        if (!this.data) return;
+
+        const paths = file instanceof TFolder
+            ? Array.from(this.pathIndex.keys()).filter(path => path.startsWith(file.path + '/'))
+            : [file.path];
+
+        for (const path of paths) {
+            const key = this.pathIndex.get(path);
+            if (!key) continue;
+            delete this.data.entries[key];
+            this.pathIndex.delete(path);
+            this.scheduleSave();
+        }
+    }
+
+    private movePath(key: string, oldPath: string, newPath: string): void {
+        const entry = this.data?.entries[key];
+        if (!entry) return;
+
+        entry.path = newPath;
+        this.pathIndex.delete(oldPath);
+        this.pathIndex.set(newPath, key);
+        this.scheduleSave();
+    }
+
+    private scheduleSave(): void {
+        if (this.saveTimer) {
+            window.clearTimeout(this.saveTimer);
+        }
+        this.saveTimer = window.setTimeout(() => {
+            this.saveTimer = null;
+            this.flush();
+        }, SyncStateStore.SAVE_DELAY);
+    }
+
+    private getKey(service: string, remoteId: string): string {
+        return `${service}:${remoteId}`;
+    }
+
+    private getFilePath(): string {
+        const pluginDir = this.plugin.manifest.dir || `${this.plugin.app.vault.configDir}/plugins/${this.plugin.manifest.id}`;
+        return normalizePath(`${pluginDir}/sync-state.json`);
+    }
+
+    private async load(): Promise<void> {
+        if (this.data) return;
+        if (!this.loading) {
+            this.loading = (async () => {
+                const adapter = this.plugin.app.vault.adapter;
+                const filePath = this.getFilePath();
+                let data: SyncStateData = { seeded: [], entries: {} };
+                try {
+                    if (await adapter.exists(filePath)) {
+                        const stored = JSON.parse(await adapter.read(filePath));
+                        data = {
+                            seeded: Array.isArray(stored?.seeded) ? stored.seeded : [],
+                            entries: stored?.entries || {}
+                        };
+                    }
+                } catch (err) {
+                    console.error('Failed to load sync state, starting empty:', err);
+                }
+
+                for (const key in data.entries) {
+                    this.pathIndex.set(data.entries[key].path, key);
+                }
+                this.data = data;
+            })();
+        }
+        await this.loading;
+    }
+}
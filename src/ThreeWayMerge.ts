@@ -0,0 +1,259 @@
+/**
+ * Line-based three-way merge (diff3 style).
+ *
+ * Both sides are diffed against the common base. Changes that touch different
+ * regions of the base are applied together; changes that touch the same region
+ * are merged only if both sides made the identical edit, otherwise the region
+ * is wrapped in conflict markers.
+ */
+
+export interface MergeResult {
+    content: string;
+    conflicts: number;
+    clean: boolean;
+}
+
+export interface MergeLabels {
+    local: string;
+    remote: string;
+}
+
+interface Hunk {
+    baseStart: number;   // First replaced line in the base (inclusive)
+    baseEnd: number;     // Last replaced line in the base (exclusive)
+    lines: string[];     // Replacement lines
+    side: 'local' | 'remote';
+}
+
+const DEFAULT_LABELS: MergeLabels = { local: 'LOCAL', remote: 'REMOTE' };
+
+export function mergeThreeWay(
+    base: string,
+    local: string,
+    remote: string,
+    labels: MergeLabels = DEFAULT_LABELS
+): MergeResult {
+    // Fast paths for the common cases
+    if (local === remote) {
+        return { content: local, conflicts: 0, clean: true };
+    }
+    if (local === base) {
+        return { content: remote, conflicts: 0, clean: true };
+    }
+    if (remote === base) {
+        return { content: local, conflicts: 0, clean: true };
+    }
+
+    const baseLines = splitLines(base);
+    const hunks = [
+        ...diffLines(baseLines, splitLines(local), 'local'),
+        ...diffLines(baseLines, splitLines(remote), 'remote'),
+    ].sort((a, b) => a.baseStart - b.baseStart || a.baseEnd - b.baseEnd);
+
+    const output: string[] = [];
+    let conflicts = 0;
+    let position = 0;
+    let index = 0;
+
+    while (index < hunks.length) {
+        // Collect every hunk that overlaps the current one into a group
+        const group: Hunk[] = [hunks[index]];
+        let groupStart = hunks[index].baseStart;
+        let groupEnd = hunks[index].baseEnd;
+        index++;
+
+        while (index < hunks.length && overlaps(groupStart, groupEnd, hunks[index])) {
+            group.push(hunks[index]);
+            groupStart = Math.min(groupStart, hunks[index].baseStart);
+            groupEnd = Math.max(groupEnd, hunks[index].baseEnd);
+            index++;
+        }
+
+        // Copy unchanged base lines up to the group
+        while (position < groupStart) {
+            output.push(baseLines[position++]);
+        }
+
+        const localHunks = group.filter(hunk => hunk.side === 'local');
+        const remoteHunks = group.filter(hunk => hunk.side === 'remote');
+        const localLines = applyHunks(baseLines, localHunks, groupStart, groupEnd);
+        const remoteLines = applyHunks(baseLines, remoteHunks, groupStart, groupEnd);
+
+        if (localHunks.length === 0) {
+            output.push(...remoteLines);
+        } else if (remoteHunks.length === 0 || sameLines(localLines, remoteLines)) {
+            output.push(...localLines);
+        } else {
+            conflicts++;
+            output.push(`<<<<<<< ${labels.local}`, ...localLines, '=======', ...remoteLines, `>>>>>>> ${labels.remote}`);
+        }
+
+        position = groupEnd;
+    }
+
+    while (position < baseLines.length) {
+        output.push(baseLines[position++]);
+    }
+
+    return {
+        content: output.join('\n'),
+        conflicts,
+        clean: conflicts === 0
+    };
+}
+
+export interface DiffRow {
+    local: string | null;     // null when the line only exists on the remote side
+    remote: string | null;    // null when the line only exists on the local side
+    changed: boolean;
+}
+
+/**
+ * Align two texts line by line for a side-by-side view.
+ * Unchanged lines share a row; changed lines are paired up where possible.
+ */
+export function diffSideBySide(local: string, remote: string): DiffRow[] {
+    const localLines = splitLines(local);
+    const rows: DiffRow[] = [];
+    let position = 0;
+
+    for (const hunk of diffLines(localLines, splitLines(remote), 'remote')) {
+        while (position < hunk.baseStart) {
+            rows.push({ local: localLines[position], remote: localLines[position], changed: false });
+            position++;
+        }
+
+        const removed = localLines.slice(hunk.baseStart, hunk.baseEnd);
+        const count = Math.max(removed.length, hunk.lines.length);
+        for (let i = 0; i < count; i++) {
+            rows.push({
+                local: i < removed.length ? removed[i] : null,
+                remote: i < hunk.lines.length ? hunk.lines[i] : null,
+                changed: true
+            });
+        }
+        position = hunk.baseEnd;
+    }
+
+    while (position < localLines.length) {
+        rows.push({ local: localLines[position], remote: localLines[position], changed: false });
+        position++;
+    }
+
+    return rows;
+}
+
+function splitLines(text: string): string[] {
+    return text === '' ? [] : text.split('\n');
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+    return a.length === b.length && a.every((line, i) => line === b[i]);
+}
+
+/**
+ * Two hunks overlap if they replace intersecting base ranges, or if both
+ * insert at the same position (their order would be ambiguous).
+ */
+function overlaps(groupStart: number, groupEnd: number, hunk: Hunk): boolean {
+    if (hunk.baseStart < groupEnd) {
+        return true;
+    }
+    return hunk.baseStart === groupEnd && (groupStart === groupEnd || hunk.baseStart === hunk.baseEnd);
+}
+
+/**
+ * Rebuild one side's version of the base range [start, end) from its hunks
+ */
+function applyHunks(baseLines: string[], hunks: Hunk[], start: number, end: number): string[] {
+    const result: string[] = [];
+    let position = start;
+    let h = 0;
+
+    while (position < end || (h < hunks.length && hunks[h].baseStart === position)) {
+        if (h < hunks.length && hunks[h].baseStart === position) {
+            result.push(...hunks[h].lines);
+            position = hunks[h].baseEnd;
+            h++;
+        } else {
+            result.push(baseLines[position++]);
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Compute the hunks that turn `base` into `changed` using a longest common
+ * subsequence over lines. Common prefix and suffix are trimmed first so
+ * typical edits only run the quadratic step on a small window.
+ */
+function diffLines(base: string[], changed: string[], side: Hunk['side']): Hunk[] {
+    let prefix = 0;
+    while (prefix < base.length && prefix < changed.length && base[prefix] === changed[prefix]) {
+        prefix++;
+    }
+
+    let suffix = 0;
+    while (
+        suffix < base.length - prefix &&
+        suffix < changed.length - prefix &&
+        base[base.length - 1 - suffix] === changed[changed.length - 1 - suffix]
+    ) {
+        suffix++;
+    }
+
+    const a = base.slice(prefix, base.length - suffix);
+    const b = changed.slice(prefix, changed.length - suffix);
+
+    if (a.length === 0 && b.length === 0) {
+        return [];
+    }
+
+    // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+    const lcs: Uint32Array[] = [];
+    for (let i = 0; i <= a.length; i++) {
+        lcs.push(new Uint32Array(b.length + 1));
+    }
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lcs[i][j] = a[i] === b[j]
+                ? lcs[i + 1][j + 1] + 1
+                : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+        }
+    }
+
+    const hunks: Hunk[] = [];
+    let i = 0;
+    let j = 0;
+    let hunkStartA = 0;
+    let hunkStartB = 0;
+
+    const flush = () => {
+        if (i > hunkStartA || j > hunkStartB) {
+            hunks.push({
+                baseStart: prefix + hunkStartA,
+                baseEnd: prefix + i,
+                lines: b.slice(hunkStartB, j),
+                side
+            });
+        }
+    };
+
+    while (i < a.length || j < b.length) {
+        if (i < a.length && j < b.length && a[i] === b[j]) {
+            flush();
+            i++;
+            j++;
+            hunkStartA = i;
+            hunkStartB = j;
+        } else if (j < b.length && (i >= a.length || lcs[i][j + 1] >= lcs[i + 1][j])) {
+            j++;
+        } else {
+            i++;
+        }
+    }
+    flush();
+
+    return hunks;
+}
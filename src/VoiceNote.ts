@@ -0,0 +1,113 @@
+/**
+ * Layout of LuojiLab voice notes in the vault.
+ *
+ * A voice note is written as its recording, then one section per part under
+ * a `##` heading: the AI summary, the transcript and the original text. Only
+ * the summary is the note's content on the server, so only the summary is
+ * merged and pushed; the other sections are rewritten from the server. The
+ * summary section ends at the next section heading, so it may hold headings
+ * of its own.
+ */
+
+import { NotesSyncSettings, RemoteAttachment, RemoteNote } from './types';
+
+export interface VoiceNoteSections {
+    summary: string;        // Headings of the sections; empty leaves a section out
+    transcript: string;
+    original: string;
+}
+
+export interface VoiceNoteParts {
+    audio: string;          // Embed or player of the recording, if any
+    summary: string;
+    transcript: string;
+    original: string;
+}
+
+const DEFAULT_SUMMARY_HEADING = 'AI Summary';
+
+export function isVoiceNote(note: RemoteNote): boolean {
+    return note.note_type === 'audio' || note.entry_type === 'voice' || !!getRecording(note);
+}
+
+/**
+ * The audio attachment of a voice note
+ */
+export function getRecording(note: RemoteNote): RemoteAttachment | undefined {
+    return (note.attachments || []).find(attachment => attachment.type === 'audio' && !!attachment.url);
+}
+
+/**
+ * A player for a recording that wasn't downloaded
+ */
+export function renderAudioPlayer(url: string): string {
+    return `<audio controls src="${url.replace(/"/g, '&quot;')}"></audio>`;
+}
+
+export function getVoiceNoteSections(settings: NotesSyncSettings): VoiceNoteSections {
+    return {
+        // The summary is what's synced, so it always has a section
+        summary: settings.voiceSummaryHeading?.trim() || DEFAULT_SUMMARY_HEADING,
+        transcript: settings.voiceTranscriptHeading?.trim() ?? '',
+        original: settings.voiceOriginalHeading?.trim() ?? ''
+    };
+}
+
+export function renderVoiceNote(parts: VoiceNoteParts, sections: VoiceNoteSections): string {
+    const blocks = [parts.audio.trim(), `## ${sections.summary}\n\n${parts.summary.trim()}`.trim()];
+    if (sections.transcript && parts.transcript.trim()) {
+        blocks.push(`## ${sections.transcript}\n\n${parts.transcript.trim()}`);
+    }
+    if (sections.original && parts.original.trim()) {
+        blocks.push(`## ${sections.original}\n\n${parts.original.trim()}`);
+    }
+    return blocks.filter(block => block).join('\n\n');
+}
+
+/**
+ * Split a note body into the parts of a voice note
+ * @returns null if the body has no summary section, so it isn't laid out as a voice note
+ */
+export function parseVoiceNote(body: string, sections: VoiceNoteSections): VoiceNoteParts | null {
+    const lines = body.replace(/\r\n/g, '\n').split('\n');
+    const headings = new Map<string, keyof VoiceNoteSections>();
+    (Object.keys(sections) as Array<keyof VoiceNoteSections>).forEach(key => {
+        if (sections[key] && !headings.has(`## ${sections[key]}`)) {
+            headings.set(`## ${sections[key]}`, key);
+        }
+    });
+
+    const start = lines.findIndex(line => headings.get(line.trim()) === 'summary');
+    if (start === -1) {
+        return null;
+    }
+
+    const parts: VoiceNoteParts = { audio: lines.slice(0, start).join('\n').trim(), summary: '', transcript: '', original: '' };
+    let current: keyof VoiceNoteSections = 'summary';
+    let content: string[] = [];
+    for (const line of lines.slice(start + 1)) {
+        const next = headings.get(line.trim());
+        // Only the first summary heading starts the section
+        if (next && next !== 'summary') {
+            parts[current] = content.join('\n').trim();
+            current = next;
+            content = [];
+        } else {
+            content.push(line);
+        }
+    }
+    parts[current] = content.join('\n').trim();
+    return parts;
+}
+
+/**
+ * The text a voice note's content hash covers: the parts that come from the
+ * server, so a transcript arriving later counts as a change
+ */
+export function getVoiceNoteHashText(parts: VoiceNoteParts, sections: VoiceNoteSections): string {
+    return [
+        parts.summary.trim(),
+        sections.transcript ? parts.transcript.trim() : '',
+        sections.original ? parts.original.trim() : ''
+    ].join('\n\n');
+}
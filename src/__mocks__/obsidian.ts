@@ -0,0 +1,21 @@
+/**
+ * What tests need of the Obsidian API, which only exists inside the app.
+ * The test runner bundles this module in place of `obsidian`.
+ */
+
+export class TAbstractFile {
+    path = '';
+}
+
+export class TFile extends TAbstractFile {
+    basename = '';
+    extension = '';
+}
+
+export function normalizePath(path: string): string {
+    return path.replace(/[\\/]+/g, '/').replace(/^\/|\/$/g, '');
+}
+
+export async function requestUrl(): Promise<never> {
+    throw new Error('Tests make no requests');
+}
@@ -1,4 +1,13 @@
 declare module 'js-yaml' {
-    export function load(input: string): any;
-    export function dump(obj: any): string;
-} 
\ No newline at end of file
+    export type Schema = object;
+
+    export const CORE_SCHEMA: Schema;
+
+    export function load(input: string, options?: { schema?: Schema }): unknown;
+    export function dump(obj: unknown, options?: {
+        schema?: Schema;
+        lineWidth?: number;
+        noRefs?: boolean;
+        skipInvalid?: boolean;
+    }): string;
+}
@@ -3,22 +3,42 @@ import { NotesSyncView, VIEW_TYPE_NOTES_SYNC } from "./ChatView";
 import { FrontMatter, NotesSyncSettings, RemoteNote } from "./types";
 import "./styles.css";
 import { SyncManager } from './SyncManager';
-import * as yaml from 'js-yaml';
+import { formatNote, parseFrontMatter } from './Frontmatter';
+import { keepProtectedRegion } from './ProtectedRegion';
 import { ConfirmModal } from './ConfirmModal';
 import { NotesSyncSettingTab } from './NotesSyncSettingTab';
+import { SyncQueue } from './SyncQueue';
+import { MergeBaseStore } from './MergeBaseStore';
+import { DeletionManager } from './DeletionManager';
+import { SyncStateStore } from './SyncStateStore';
+import { RenameTracker } from './RenameTracker';
+import { AttachmentManager } from './AttachmentManager';
+import { SyncProviderRegistry } from './SyncProviderRegistry';
+import { AccountManager } from './AccountManager';
+import { SyncCursorStore } from './SyncCursorStore';
+import { SyncHistory } from './SyncHistory';
+import { SyncSnapshots } from './SyncSnapshots';
+import { LUOJILAB_PROVIDER } from './LuojiLabSyncService';
+import { FLOMO_PROVIDER } from './FlomoSyncService';
 
 const DEFAULT_SETTINGS: NotesSyncSettings = {
     bearerToken: '',
     apiBaseUrl: 'https://api.example.com',
+    pushRenamedTitles: false,
+    voiceSummaryHeading: 'AI Summary',
+    voiceTranscriptHeading: 'Transcript',
+    voiceOriginalHeading: 'Original Text',
     syncFolder: 'notes',
     noteFetchLimit: 50,
     retryAttempts: 3,
     conflictResolution: 'ask',
-    autoSync: false,
-    autoSyncInterval: 30,
-    lastSyncId: '',
-    lastSyncTime: 0,
     syncService: 'luojilab', // Default to LuojiLab for backward compatibility
+    enabledServices: ['luojilab'],
+    serviceAutoSync: {},
+    accounts: [],
+    syncCursors: {},
+    pathTemplates: {},
+    noteTemplates: {},
     
     // Global LLM settings
     useLlmForTitles: false,
@@ -33,13 +53,38 @@ const DEFAULT_SETTINGS: NotesSyncSettings = {
     flomoLlmModel: '',
     flomoLlmApiKey: '',
     flomoFetchLimit: 200,
-    flomoFetchOrder: 'latest'
+    flomoFetchOrder: 'latest',
+    flomoTagStyle: 'inline',
+    flomoTagRules: '',
+
+    syncQueue: [],
+
+    localDeletePolicy: 'ask',
+    remoteDeletePolicy: 'ask',
+    trashFolder: 'notes-sync-trash',
+    downloadAttachments: true,
+    attachmentFolder: 'notes-sync-attachments',
+    maxAttachmentSize: 20,
+    protectedRegionMarker: '%% my notes %%',
+    syncReportFolder: '',
+    snapshotRetention: 10,
+    tombstones: []
 };
 
 export default class NotesSyncPlugin extends Plugin {
     settings: NotesSyncSettings;
     syncManager: SyncManager;
-    private autoSyncInterval: number | null = null;
+    providers: SyncProviderRegistry;
+    accounts: AccountManager;
+    cursors: SyncCursorStore;
+    syncQueue: SyncQueue;
+    mergeBaseStore: MergeBaseStore;
+    deletionManager: DeletionManager;
+    attachments: AttachmentManager;
+    syncState: SyncStateStore;
+    renameTracker: RenameTracker;
+    syncHistory: SyncHistory;
+    snapshots: SyncSnapshots;
     private autoPullInterval: number | null = null;
     private autoPushInterval: number | null = null;
     private statusBar: HTMLElement | null = null;
@@ -49,6 +94,19 @@ export default class NotesSyncPlugin extends Plugin {
     async onload() {
         console.log("Loading NotesSyncPlugin...");
         await this.loadSettings();
+        this.providers = new SyncProviderRegistry();
+        this.providers.register(LUOJILAB_PROVIDER);
+        this.providers.register(FLOMO_PROVIDER);
+        this.accounts = new AccountManager(this);
+        this.cursors = new SyncCursorStore(this);
+        this.syncQueue = new SyncQueue(this);
+        this.mergeBaseStore = new MergeBaseStore(this);
+        this.deletionManager = new DeletionManager(this);
+        this.attachments = new AttachmentManager(this);
+        this.syncState = new SyncStateStore(this);
+        this.renameTracker = new RenameTracker(this);
+        this.syncHistory = new SyncHistory(this);
+        this.snapshots = new SyncSnapshots(this);
         this.syncManager = new SyncManager(this);
 
         // Register view
@@ -71,8 +129,30 @@ export default class NotesSyncPlugin extends Plugin {
             id: "sync-notes",
             name: "Sync Notes",
             callback: async () => {
-                await this.syncManager.syncFromServer();
-                await this.syncManager.syncToServer();
+                await this.syncManager.syncAll();
+            }
+        });
+
+        // Preview commands show what a sync would do before anything is changed
+        this.addCommand({
+            id: "preview-sync-from-server",
+            name: "Preview Sync from Server",
+            callback: async () => {
+                await this.syncManager.previewSync('pull');
+            }
+        });
+        this.addCommand({
+            id: "preview-full-sync",
+            name: "Preview Full Sync from Server",
+            callback: async () => {
+                await this.syncManager.previewSync('pull', undefined, true);
+            }
+        });
+        this.addCommand({
+            id: "preview-sync-to-server",
+            name: "Preview Sync to Server",
+            callback: async () => {
+                await this.syncManager.previewSync('push');
             }
         });
 
@@ -81,8 +161,7 @@ export default class NotesSyncPlugin extends Plugin {
             id: 'cancel-sync',
             name: 'Cancel Ongoing Sync',
             callback: () => {
-                const syncStatus = this.syncManager.getSyncStatus();
-                if (syncStatus.inProgress) {
+                if (this.syncManager.isAnySyncInProgress()) {
                     this.syncManager.cancelSync();
                     new Notice('Sync operation cancelled');
                 } else {
@@ -110,10 +189,83 @@ export default class NotesSyncPlugin extends Plugin {
             }
         });
 
-        // Start auto-sync if enabled
-        if (this.settings.autoSync) {
-            this.startAutoSync();
-        }
+        // Add command to move synced notes to their path template
+        this.addCommand({
+            id: 'relayout-synced-notes',
+            name: 'Re-layout Synced Notes',
+            callback: () => {
+                const message = 'Move every synced note to the path its service\'s path template gives it? Notes whose new path is already taken stay where they are.';
+                new ConfirmModal(this.app, message, async (confirmed) => {
+                    if (!confirmed) return;
+
+                    const { moved, skipped } = await this.syncManager.relayoutNotes();
+                    new Notice(`Moved ${moved} note${moved === 1 ? '' : 's'}${skipped > 0 ? `, ${skipped} left in place` : ''}`);
+                }, 'Move').open();
+            }
+        });
+
+        // Add roll back command
+        this.addCommand({
+            id: 'roll-back-last-sync',
+            name: 'Roll Back Last Sync',
+            callback: async () => {
+                if (this.syncManager.isAnySyncInProgress()) {
+                    new Notice('Wait for the sync in progress to finish before rolling back');
+                    return;
+                }
+
+                const snapshot = await this.snapshots.getLatest();
+                if (!snapshot) {
+                    new Notice('No sync from the server to roll back. Syncs to the server can\'t be rolled back.');
+                    return;
+                }
+
+                const created = snapshot.files.filter(entry => entry.snapshot === null).length;
+                const changed = snapshot.files.length - created;
+                const message = `Roll back the sync from ${this.providers.getDisplayName(snapshot.service)} (${snapshot.account}) ` +
+                    `of ${new Date(snapshot.startedAt).toLocaleString()}? ${changed} note${changed === 1 ? '' : 's'} it changed or deleted ` +
+                    `go back to how they were${created > 0 ? `, and ${created} note${created === 1 ? '' : 's'} it created move to the system trash` : ''}. ` +
+                    'Their sync state goes back too, so the next sync pulls the same changes again; the notes on the server are left alone.';
+                new ConfirmModal(this.app, message, async (confirmed) => {
+                    if (!confirmed) return;
+
+                    const { restored, removed, failed } = await this.snapshots.rollback(snapshot);
+                    new Notice(`Rolled back ${restored} note${restored === 1 ? '' : 's'}${removed > 0 ? `, removed ${removed}` : ''}${failed > 0 ? `, ${failed} failed` : ''}`);
+                }, 'Roll Back').open();
+            }
+        });
+
+        // Add retry queue command
+        this.addCommand({
+            id: 'retry-sync-queue',
+            name: 'Retry Pending Sync Changes',
+            callback: async () => {
+                const pending = this.syncQueue.count();
+                if (pending === 0) {
+                    new Notice('No pending changes in the sync queue');
+                    return;
+                }
+                await this.syncManager.processQueue(true);
+            }
+        });
+
+        // Drain the sync queue when connectivity returns and periodically while items are waiting
+        this.registerDomEvent(window, 'online', () => {
+            console.log('Network connection restored, processing sync queue');
+            this.syncManager.processQueue();
+        });
+        this.registerInterval(window.setInterval(() => {
+            this.syncManager.processQueue();
+        }, 60 * 1000));
+        this.app.workspace.onLayoutReady(() => {
+            this.syncManager.processQueue();
+        });
+
+        // Propagate deletions of synced notes
+        this.deletionManager.register();
+        this.syncState.register();
+        this.renameTracker.register();
+        this.attachments.register();
 
         // Setup status bar
         this.setupStatusBar();
@@ -121,28 +273,54 @@ export default class NotesSyncPlugin extends Plugin {
 
     async onunload() {
         console.log("Unloading NotesSyncPlugin...");
-        this.stopAutoSync();
+        this.syncManager.cancelAutoSync();
         this.clearStatusBarInterval();
+        await this.syncState.flush();
+        await this.mergeBaseStore.flush();
         if (this.statusBar) {
             this.statusBar.remove();
         }
     }
 
     async loadSettings() {
-        this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+        const data = await this.loadData();
+        this.settings = Object.assign({}, DEFAULT_SETTINGS, data);
+        const legacy = this.settings as unknown as Record<string, unknown>;
+        // Replaced by the sync state store
+        delete legacy.idToPathCache;
+
+        // Older versions had a single active service with one auto sync schedule
+        if (!data?.enabledServices) {
+            this.settings.enabledServices = [this.settings.syncService];
+        }
+        if (!data?.serviceAutoSync) {
+            this.settings.serviceAutoSync = {
+                [this.settings.syncService]: {
+                    enabled: data?.autoSync ?? false,
+                    interval: data?.autoSyncInterval ?? 30
+                }
+            };
+        }
+        delete legacy.autoSync;
+        delete legacy.autoSyncInterval;
     }
 
     async saveSettings() {
         await this.saveData(this.settings);
         
-        // Update auto-sync based on new settings
-        if (this.settings.autoSync) {
-            this.startAutoSync();
-        } else {
-            this.stopAutoSync();
+        // Update services and auto-sync based on new settings
+        if (this.syncManager) {
+            this.syncManager.reloadServices();
         }
     }
 
+    /**
+     * Persist sync state (queue, cursors) without re-scheduling auto sync
+     */
+    async saveSyncState() {
+        await this.saveData(this.settings);
+    }
+
     async activateView() {
         const { workspace } = this.app;
         
@@ -163,25 +341,6 @@ export default class NotesSyncPlugin extends Plugin {
         workspace.revealLeaf(leaf);
     }
 
-    startAutoSync() {
-        if (this.autoSyncInterval) {
-            clearInterval(this.autoSyncInterval);
-        }
-
-        const interval = this.settings.autoSyncInterval * 60 * 1000; // Convert minutes to milliseconds
-        this.autoSyncInterval = window.setInterval(async () => {
-            await this.syncManager.syncFromServer();
-            await this.syncManager.syncToServer();
-        }, interval);
-    }
-
-    stopAutoSync() {
-        if (this.autoSyncInterval) {
-            clearInterval(this.autoSyncInterval);
-            this.autoSyncInterval = null;
-        }
-    }
-
     async syncFromServer() {
         // Delegate to SyncManager but maintain backward compatibility
         return this.syncManager.syncFromServer();
@@ -255,15 +414,15 @@ export default class NotesSyncPlugin extends Plugin {
         };
 
         const body = remoteNote.content || "";
-        const mdContent = this.serializeToMarkdown(frontMatter, body);
         const fullPath = `${folder}/${fileName}`;
 
         const existingFile = this.app.vault.getAbstractFileByPath(fullPath);
         if (existingFile && existingFile instanceof TFile) {
-            await this.app.vault.modify(existingFile, mdContent);
+            const existingNote = await this.app.vault.read(existingFile);
+            await this.app.vault.modify(existingFile, this.serializeToMarkdown(frontMatter, body, existingNote));
         } else {
             await this.app.vault.createFolder(folder).catch(() => {});
-            await this.app.vault.create(fullPath, mdContent);
+            await this.app.vault.create(fullPath, this.serializeToMarkdown(frontMatter, body));
         }
     }
 
@@ -297,37 +456,51 @@ export default class NotesSyncPlugin extends Plugin {
     }
 
     async updateNoteOnServer(frontMatter: FrontMatter | null, content: string) {
-        return this.createNoteOnServer(frontMatter, content);
+        if (!frontMatter?.remote_id) {
+            return this.createNoteOnServer(frontMatter, content);
+        }
+
+        const url = `https://get-notes.luojilab.com/voicenotes/web/notes/${frontMatter.remote_id}`;
+        
+        const payload = {
+            title: frontMatter.title || "",
+            content: content,
+            json_content: "",
+            entry_type: frontMatter.entry_type || "manual",
+            note_type: frontMatter.note_type || "plain_text",
+            source: frontMatter.source || "web",
+            tags: frontMatter.tags || [],
+        };
+
+        const response = await fetch(url, {
+            method: "PUT",
+            headers: {
+                "Authorization": `Bearer ${this.settings.bearerToken}`,
+                "Content-Type": "application/json",
+            },
+            body: JSON.stringify(payload),
+        });
+
+        if (!response.ok) {
+            throw new Error(`Failed to update note: ${response.status} ${response.statusText}`);
+        }
+
+        return await response.json();
     }
 
     parseFrontMatter(content: string): FrontMatter | null {
-        try {
-            const match = content.match(/^---\n([\s\S]*?)\n---/);
-            if (!match) return null;
-
-            const frontMatter = yaml.load(match[1]) as FrontMatter;
-            return frontMatter;
-        } catch (e) {
-            console.error('Error parsing front matter:', e);
-            return null;
-        }
+        return parseFrontMatter(content) as FrontMatter | null;
     }
 
-    serializeToMarkdown(frontMatter: FrontMatter, content: string): string {
-        let yaml = `---\n`;
-        for (const key in frontMatter) {
-            const value = frontMatter[key];
-            if (Array.isArray(value)) {
-                yaml += `${key}:\n`;
-                value.forEach((val: string) => {
-                    yaml += `  - ${val}\n`;
-                });
-            } else {
-                yaml += `${key}: ${value}\n`;
-            }
-        }
-        yaml += `---\n\n`;
-        return yaml + content;
+    /**
+     * @param existingNote The note being rewritten, whose own keys and protected region are kept
+     */
+    serializeToMarkdown(frontMatter: FrontMatter, content: string, existingNote?: string): string {
+        return formatNote(
+            frontMatter,
+            keepProtectedRegion(content, existingNote, this.settings.protectedRegionMarker),
+            existingNote !== undefined ? parseFrontMatter(existingNote) : null
+        );
     }
 
     setupStatusBar() {
@@ -351,21 +524,31 @@ export default class NotesSyncPlugin extends Plugin {
     updateStatusBar() {
         if (!this.statusBar) return;
 
-        const status = this.syncManager.getSyncStatus();
-        if (status.inProgress) {
-            const progress = status.progress;
-            let progressText = '';
-            if (progress.total > 0) {
-                const percent = Math.round((progress.completed / progress.total) * 100);
-                progressText = `${percent}% (${progress.completed}/${progress.total})`;
-            }
-            this.statusBar.setText(`⟳ Syncing: ${progressText} ${progress.currentFile}`);
-        } else if (status.lastSync > 0) {
-            const lastSyncDate = new Date(status.lastSync).toLocaleTimeString();
-            this.statusBar.setText(`Last synced: ${lastSyncDate}`);
-        } else {
-            this.statusBar.setText('Not synced yet');
+        const statuses = this.syncManager.getAllSyncStatuses();
+        if (statuses.length === 0) {
+            this.statusBar.setText('Notes Sync: no services enabled');
+            return;
         }
+
+        // One entry per enabled service
+        const parts = statuses.map(({ name, status }) => {
+            if (status.inProgress) {
+                const progress = status.progress;
+                let progressText = '';
+                if (progress.total > 0) {
+                    const percent = Math.round((progress.completed / progress.total) * 100);
+                    progressText = ` ${percent}% (${progress.completed}/${progress.total})`;
+                }
+                return statuses.length === 1
+                    ? `⟳ Syncing ${name}:${progressText} ${progress.currentFile}`
+                    : `⟳ ${name}:${progressText}`;
+            }
+            if (status.lastSync > 0) {
+                return `${name}: ${new Date(status.lastSync).toLocaleTimeString()}`;
+            }
+            return `${name}: not synced yet`;
+        });
+        this.statusBar.setText(parts.join(' · '));
     }
 
     async confirmDeleteNote(file: TFile) {
@@ -1,3 +1,8 @@
+import type NotesSyncPlugin from './main';
+
+// ID of a registered sync provider, e.g. 'luojilab' or 'flomo'
+export type SyncProviderId = string;
+
 export interface RemoteNote {
     id: string;
     note_id: string;
@@ -15,6 +20,19 @@ export interface RemoteNote {
     }>;
     created_at: string;
     updated_at?: string;
+
+    // Voice notes
+    attachments?: RemoteAttachment[];   // The recording, among others
+    transcript?: string;                // Speech-to-text of the recording
+    original_content?: string;          // Text the note was made from, before the AI summary
+}
+
+export interface RemoteAttachment {
+    type: string;           // 'audio' for recordings
+    url: string;
+    title?: string;
+    size?: number;          // In bytes
+    duration?: number;      // In seconds
 }
 
 export interface NotesSyncSettings {
@@ -23,12 +41,18 @@ export interface NotesSyncSettings {
     noteFetchLimit: number;
     retryAttempts: number;
     conflictResolution: 'ask' | 'local' | 'remote';
-    lastSyncId: string;
-    lastSyncTime: number;
-    autoSync: boolean;
-    autoSyncInterval: number;
     apiBaseUrl: string;
-    syncService: 'luojilab' | 'flomo';
+    pushRenamedTitles: boolean;
+    voiceSummaryHeading: string;        // Section headings of LuojiLab voice notes, see VoiceNote.ts
+    voiceTranscriptHeading: string;     // Empty leaves the section out
+    voiceOriginalHeading: string;
+    syncService: SyncProviderId;                            // Service selected in the sidebar
+    enabledServices: SyncProviderId[];                      // Services that sync, possibly at the same time
+    serviceAutoSync: Record<SyncProviderId, ServiceAutoSync>;
+    accounts: AccountProfile[];                             // Named accounts, one or more per service
+    syncCursors: Record<string, SyncCursor>;                // Keyed by account profile ID
+    pathTemplates: Record<SyncProviderId, string>;          // Layout of synced notes; the provider's default if unset
+    noteTemplates: Record<SyncProviderId, NoteTemplateSettings>;
     
     // LLM settings that can be used by both services
     useLlmForTitles: boolean;
@@ -44,6 +68,54 @@ export interface NotesSyncSettings {
     flomoLlmApiKey: string;
     flomoFetchLimit: number;
     flomoFetchOrder: 'latest' | 'oldest';
+    flomoTagStyle: 'inline' | 'frontmatter';   // Where tags live in the local note body
+    flomoTagRules: string;                      // "flomo/tag => obsidian/tag", one rule per line
+
+    // Uploads and downloads waiting to be retried
+    syncQueue: SyncQueueItem[];
+
+    // Deletion propagation
+    localDeletePolicy: 'never' | 'ask' | 'always';    // Delete on the server when a synced note is deleted locally
+    remoteDeletePolicy: 'never' | 'ask' | 'always';   // Move local copies of remotely deleted notes to the trash folder
+    trashFolder: string;
+    tombstones: Tombstone[];
+
+    // Everything below this line in a note stays local, see ProtectedRegion.ts; empty turns it off
+    protectedRegionMarker: string;
+
+    // Folder that gets a Markdown report of every sync run that changed something; empty turns reports off
+    syncReportFolder: string;
+
+    // Number of sync runs whose changed files are kept for rolling back, see SyncSnapshots.ts; 0 turns snapshots off
+    snapshotRetention: number;
+
+    // Images and files of remote notes
+    downloadAttachments: boolean;
+    attachmentFolder: string;
+    maxAttachmentSize: number;      // In MB, 0 for no limit
+}
+
+export interface AccountProfile {
+    id: string;
+    service: SyncProviderId;
+    name: string;
+    enabled: boolean;                   // Included when the service syncs
+    settings: Record<string, unknown>;  // Credentials and folder of this account
+}
+
+/**
+ * How far an account has synced, per direction
+ */
+export interface SyncCursor {
+    pullCursor: string;     // Service-specific position of the last pull, e.g. the newest note ID
+    lastPull: number;       // Start time of the last completed pull
+    lastPush: number;       // Start time of the last completed push
+    lastFullSync: number;   // Start time of the last completed full pull
+}
+
+export interface ServiceAutoSync {
+    enabled: boolean;
+    interval: number;       // Minutes between automatic syncs
 }
 
 export interface FrontMatter {
@@ -55,12 +127,24 @@ export interface FrontMatter {
     source?: string;
     entry_type?: string;
     note_type?: string;
+    voice_note?: boolean;      // Laid out as a voice note, see VoiceNote.ts
     created_at?: string;
     updated_at?: string;
     last_synced?: number;      // Local timestamp of last sync
+    content_hash?: string;     // Hash of the body and synced keys as of the last sync
     sync_status?: 'synced' | 'pending' | 'conflict' | 'error';
 }
 
+export interface SyncStateEntry {
+    service: SyncProviderId;
+    remoteId: string;
+    path: string;               // Vault path of the local note
+    hash?: string;              // Content hash as of the last sync
+    remoteUpdatedAt?: string;   // Remote updated_at as of the last sync
+    slug?: string;              // Flomo memo slug, the reference for incremental fetches
+    lastSynced: number;
+}
+
 export interface SyncStatus {
     inProgress: boolean;
     lastSync: number;
@@ -79,17 +163,138 @@ export interface SyncStatus {
 }
 
 export interface SyncQueueItem {
-    type: 'upload' | 'download';
+    id: string;
+    service: SyncProviderId;
+    profileId?: string;        // Account the item belongs to
+    type: 'upload' | 'download' | 'delete';
     path: string;
     remoteId?: string;
+    payload?: unknown;         // Remote note kept for downloads that could not be written
     retryCount: number;
     timestamp: number;
+    nextAttempt?: number;      // Earliest time the item may be retried
+    lastError?: string;
+}
+
+export interface Tombstone {
+    service: SyncProviderId;
+    remoteId: string;
+    path: string;               // Path of the local file when it was deleted
+    deletedAt: number;
+    origin: 'local' | 'remote'; // Where the note was deleted first
+    propagated: boolean;        // Whether the deletion has reached the other side
+}
+
+export interface SyncOptions {
+    isAutoSync?: boolean;
+    isFullSync?: boolean;
+    dryRun?: boolean;           // Work out what the sync would do and return it as a plan, changing nothing
+    only?: string[];            // Keys of the plan items to apply; other notes are left alone
+}
+
+export type SyncPlanAction = 'create' | 'update' | 'conflict' | 'skip' | 'delete';
+
+export interface SyncPlanItem {
+    key: string;                // Remote ID of a pulled note, path of a pushed one
+    action: SyncPlanAction;
+    path: string;               // Local file the action applies to
+    title: string;
+    reason?: string;
+}
+
+// What a sync of one account would do, see SyncOptions.dryRun
+export interface SyncPlan {
+    service: SyncProviderId;
+    profileId: string;
+    account: string;            // Name of the account
+    direction: 'pull' | 'push';
+    items: SyncPlanItem[];
+}
+
+export type SyncTrigger = 'manual' | 'auto' | 'full';
+
+export type SyncRunAction = SyncPlanAction | 'error';
+
+export interface SyncRunEntry {
+    action: SyncRunAction;
+    path: string;               // Local file, empty when there is none
+    title: string;
+    detail?: string;
+}
+
+// A sync of one account in one direction, as kept in the sync history
+export interface SyncRun {
+    id: string;
+    service: SyncProviderId;
+    profileId: string;
+    account: string;            // Name of the account
+    direction: 'pull' | 'push';
+    trigger: SyncTrigger;
+    startedAt: number;
+    finishedAt: number;
+    status: 'completed' | 'cancelled' | 'failed';
+    error?: string;             // Why a failed run stopped
+    counts: Record<SyncRunAction, number>;
+    notes: SyncRunEntry[];      // Every note the run changed or failed on; skipped notes are only counted
 }
 
 export interface SyncService {
-    syncFromServer(options?: { isAutoSync?: boolean, isFullSync?: boolean }): Promise<void>;
-    syncToServer(): Promise<void>;
+    /**
+     * Pull notes from the server
+     * @returns The plan of the sync when it's a dry run
+     */
+    syncFromServer(options?: SyncOptions): Promise<SyncPlan | void>;
+    /**
+     * Push notes in the sync folder to the server
+     * @returns The plan of the sync when it's a dry run
+     */
+    syncToServer(options?: SyncOptions): Promise<SyncPlan | void>;
     testConnection(): Promise<{success: boolean, message: string}>;
     cancelSync(): void;
     getSyncStatus(): SyncStatus;
-} 
\ No newline at end of file
+    processQueueItem(item: SyncQueueItem): Promise<void>;
+    deleteRemoteNote(remoteId: string): Promise<void>;
+    /**
+     * Where a synced note belongs under the current path template, from its
+     * frontmatter. Null if the frontmatter isn't this service's.
+     */
+    getLocalPath(frontMatter: Record<string, unknown>): string | null;
+} 
+
+export interface SyncProviderCapabilities {
+    push: boolean;          // Local notes can be uploaded
+    delete: boolean;        // Remote notes can be deleted
+    attachments: boolean;   // Attachments are synced
+    incremental: boolean;   // Only changes since the last sync are fetched
+}
+
+export interface ProviderSettingField {
+    key: string;                        // Key in NotesSyncSettings
+    name: string;
+    desc: string;
+    type: 'text' | 'textarea' | 'number' | 'toggle' | 'dropdown';
+    placeholder?: string;
+    options?: Record<string, string>;   // Dropdown values and their labels
+    min?: number;                       // Smallest accepted value for numbers
+    normalize?: (value: string) => string;
+    account?: boolean;                  // Stored per account profile rather than per service
+}
+
+// How a service writes synced notes, see NoteTemplate.ts
+export interface NoteTemplateSettings {
+    frontMatter: string;    // Keys to write, one per line as "key" or "key: name"; empty writes them all
+    header: string;         // Text template above the body
+    footer: string;         // Text template below the body
+}
+
+export interface SyncProvider {
+    id: SyncProviderId;
+    displayName: string;
+    idKey: string;                      // Frontmatter key that holds the remote ID
+    folderSetting: string;              // Settings key of the provider's sync folder
+    pathTemplate: string;               // Default layout of synced notes, see PathTemplate.ts
+    optionalKeys: string[];             // Frontmatter keys a note template may leave out
+    capabilities: SyncProviderCapabilities;
+    settings: ProviderSettingField[];
+    create(plugin: NotesSyncPlugin, profile: AccountProfile): SyncService;
+}